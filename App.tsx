@@ -1,27 +1,115 @@
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import { motion, AnimatePresence } from 'motion/react';
-import { Plus, Trash2, Wallet, PiggyBank, ArrowRightLeft, CheckCircle2, AlertCircle, TrendingUp, X, ArrowRight } from 'lucide-react';
+import { Plus, Trash2, Wallet, PiggyBank, ArrowRightLeft, CheckCircle2, AlertCircle, TrendingUp, X, ArrowRight, CalendarClock, Pencil, History, Download, Upload, Cloud, CloudOff, RefreshCw, FileUp, Landmark, Target, Undo2, Redo2, ArrowUp, ArrowDown, Archive, ArchiveRestore, Check, Coins, Receipt, PieChart, ChevronLeft, ChevronRight, ChevronDown, Sparkles, Lock, KeyRound, Users, UserPlus } from 'lucide-react';
 
-type Item = { id: string; name: string; balance: number };
-type Debt = { id: string; date: string; borrowFrom: string; toFund: string; amount: number; note: string };
+import { Item, Debt, Frequency, Charge, Collection, BalanceChange, DebtChange, JournalKind, JournalEntry, BankTransaction, TransactionChange, SplitRule, SplitPreset, Splitter, Goal, Snapshot, Exchange, ExpectedPaycheck, Expense, ExpenseChange } from './types';
+import { monthKey, monthNumber, startOfDay, toDateInput, fromDateInput, dueCharges, nextPayday } from './calendar';
+import { accountBalance, debtSources, netWorth, pickItem, virtualBalance } from './balances';
+import { CURRENCIES, convert, currencySymbol, exchangeRate, formatMoney, missingRates, parseRates, rebase } from './money';
+import { monthlyDeltas, useDailySnapshot } from './snapshots';
+import { usePersistentStorage, useServiceWorker } from './pwa';
+import { LOCK_DELAYS, MIN_PIN_LENGTH, useIdleLock } from './vault';
+import { allocate } from './splitter';
+import { forecast, firstAlert, ForecastAssumptions, ForecastMonth } from './forecast';
+import { averagePaycheck, goalProgress, GoalProgress, suggestSplitter } from './goals';
+import { EXPENSE_CATEGORIES, categoryFromLabel, categoryLabel, envelopeReport, knownCategories } from './envelopes';
+import { ParseContext, ParseResult, QuickAction, describeAction, quickEntryParser } from './quickEntry';
+import { CSV_PRESETS, CsvMapping, DateFormat, detectDelimiter, matchCharge, parseCsvStatement, parseOfx, suggestPocket, transactionIds } from './statements';
+import { useStore, useSync, SyncStatus, hasRemoteRecords, emptyState, saveStore, exportDocument, parseDocument, diffStates, mergeStates, StoreState, DiffLine, Updater } from './store';
+import { t, formatDate, formatDateTime, formatMonth, formatNumber, MessageKey, Locale, LOCALES, useLocale, getLocale, browserLocale } from './i18n';
+import { DEFAULT_PROFILE, Profile, Profiles, loadProfiles, removeProfileData, saveProfiles } from './profiles';
+import { TEMPLATES, TemplateKey, buildFromTemplate } from './templates';
 
-function useLocalStorage<T>(key: string, initialValue: T) {
-  const [storedValue, setStoredValue] = useState<T>(() => {
-    try {
-      const item = window.localStorage.getItem(key);
-      return item ? JSON.parse(item) : initialValue;
-    } catch (error) {
-      return initialValue;
-    }
+function describeFrequency(charge: Charge) {
+  if (charge.frequency === 'monthly') return t('charges.monthly');
+  if (charge.frequency === 'yearly') return t('charges.yearlyIn', { month: formatDate(`${charge.startMonth}-01`, { month: 'short' }) });
+  return t('charges.everyMonths', { months: charge.everyMonths });
+}
+
+const newId = () => Date.now().toString() + Math.random().toString(36).slice(2, 6);
+
+const journalKindLabel = (kind: JournalKind) => t(`journal.${kind}`);
+
+function applyBalanceChanges(items: Item[], collection: Collection, changes: BalanceChange[]) {
+  return items.map(item => {
+    const change = changes.find(c => c.collection === collection && c.itemId === item.id);
+    return change ? { ...item, balance: change.after } : item;
   });
-  const setValue = (value: T | ((val: T) => T)) => {
-    try {
-      const valueToStore = value instanceof Function ? value(storedValue) : value;
-      setStoredValue(valueToStore);
-      window.localStorage.setItem(key, JSON.stringify(valueToStore));
-    } catch (error) {}
+}
+
+// Several moves on the same item within one entry are folded into a single change.
+function addToBalance(balances: BalanceChange[], collection: Collection, item: Item, delta: number) {
+  const existing = balances.find(c => c.collection === collection && c.itemId === item.id);
+  if (existing) existing.after = parseFloat((existing.after + delta).toFixed(2));
+  else balances.push({ collection, itemId: item.id, name: item.name, before: item.balance, after: parseFloat((item.balance + delta).toFixed(2)) });
+}
+
+// A debt is settled as soon as nothing remains; it then stays in the list as history.
+function repayDebt(debt: Debt, amount: number, fromPaycheck = false): Debt {
+  const paid = parseFloat(Math.min(amount, debt.remaining).toFixed(2));
+  const remaining = parseFloat((debt.remaining - paid).toFixed(2));
+  const date = toDateInput(new Date());
+  return {
+    ...debt,
+    remaining,
+    repayments: [...debt.repayments, { id: newId(), date, amount: paid, ...(fromPaycheck ? { fromPaycheck } : {}) }],
+    ...(remaining === 0 ? { status: 'settled' as const, settledAt: date } : {}),
   };
-  return [storedValue, setValue] as const;
+}
+
+function applyRecordChanges<T extends { id: string }>(records: T[], changes: { before: T | null, after: T | null }[]) {
+  return changes.reduce((acc, { before, after }) => {
+    if (before && after) return acc.map(r => r.id === before.id ? after : r);
+    if (before) return acc.filter(r => r.id !== before.id);
+    return after ? [after, ...acc] : acc;
+  }, records);
+}
+
+const invertEntry = (entry: JournalEntry) => ({
+  balances: entry.balances.map(c => ({ ...c, before: c.after, after: c.before })),
+  debts: entry.debts.map(c => ({ before: c.after, after: c.before })),
+  transactions: (entry.transactions || []).map(c => ({ before: c.after, after: c.before })),
+  expenses: (entry.expenses || []).map(c => ({ before: c.after, after: c.before })),
+});
+
+// Replays undo/redo entries to find which entries are currently applied (done) and which can be redone.
+function journalStacks(entries: JournalEntry[]) {
+  const done: JournalEntry[] = [];
+  let undone: JournalEntry[] = [];
+  for (const entry of entries) {
+    if (entry.kind === 'undo') {
+      const target = done.find(e => e.id === entry.targetId);
+      if (target) { done.splice(done.indexOf(target), 1); undone.push(target); }
+    } else if (entry.kind === 'redo') {
+      const target = undone.find(e => e.id === entry.targetId);
+      if (target) { undone.splice(undone.indexOf(target), 1); done.push(target); }
+    } else {
+      done.push(entry);
+      undone = [];
+    }
+  }
+  return { done, undone };
+}
+
+// Compares each balance with the last value the journal recorded for it.
+function journalDrift(entries: JournalEntry[], accounts: Item[], pockets: Item[]) {
+  const expected = new Map<string, BalanceChange>();
+  entries.forEach(e => e.balances.forEach(c => expected.set(`${c.collection}:${c.itemId}`, c)));
+  return [...expected.values()].flatMap(c => {
+    const item = (c.collection === 'accounts' ? accounts : pockets).find(i => i.id === c.itemId);
+    return item && item.balance !== c.after ? [{ ...c, before: c.after, after: item.balance }] : [];
+  });
+}
+
+// Swaps an item with its nearest neighbour of the same archived state, so hidden archived items don't absorb a move.
+function moveItem(items: Item[], id: string, direction: -1 | 1) {
+  const index = items.findIndex(i => i.id === id);
+  let target = index + direction;
+  while (target >= 0 && target < items.length && !!items[target].archived !== !!items[index].archived) target += direction;
+  if (index < 0 || target < 0 || target >= items.length) return items;
+  const next = [...items];
+  [next[index], next[target]] = [next[target], next[index]];
+  return next;
 }
 
 const GlassCard = ({ children, className = "", delay = 0 }: any) => (
@@ -35,73 +123,299 @@ const GlassCard = ({ children, className = "", delay = 0 }: any) => (
   </motion.div>
 );
 
-function CurrencyInput({ value, onChange }: { value: number, onChange: (v: number) => void }) {
-  const [focused, setFocused] = useState(false);
-  const displayValue = focused ? (value === 0 ? '' : value) : (value === 0 ? '0.00' : value.toFixed(2));
+// Edits are kept local while focused and committed once on blur, so each correction is a single journal entry.
+function CurrencyInput({ value, currency, onChange }: { value: number, currency: string, onChange: (v: number) => void }) {
+  const [draft, setDraft] = useState<string | null>(null);
+  const displayValue = draft !== null ? draft : value.toFixed(2);
+  const symbol = currencySymbol(currency);
+
+  const commit = () => {
+    if (draft === null) return;
+    const next = parseFloat((parseFloat(draft) || 0).toFixed(2));
+    setDraft(null);
+    if (next !== value) onChange(next);
+  };
   
   return (
     <div className="relative">
       <input 
-        type={focused ? "number" : "text"}
+        type={draft !== null ? "number" : "text"}
         step="0.01"
         value={displayValue}
-        onChange={(e) => onChange(parseFloat(e.target.value) || 0)}
-        onFocus={() => setFocused(true)}
-        onBlur={() => {
-          setFocused(false);
-          onChange(parseFloat((value || 0).toFixed(2)));
-        }}
+        onChange={(e) => setDraft(e.target.value)}
+        onFocus={() => setDraft(value === 0 ? '' : String(value))}
+        onBlur={commit}
+        onKeyDown={(e) => e.key === 'Enter' && e.currentTarget.blur()}
         placeholder="0.00"
-        className="w-28 bg-black/40 border border-white/10 rounded-xl px-3 py-2 pr-6 text-right font-semibold focus:outline-none focus:border-amber-500/50 focus:ring-1 focus:ring-amber-500/50 placeholder-white/30 transition-all text-white"
+        className={`w-28 bg-black/40 border border-white/10 rounded-xl px-3 py-2 ${symbol.length > 1 ? 'pr-10' : 'pr-6'} text-right font-semibold focus:outline-none focus:border-amber-500/50 focus:ring-1 focus:ring-amber-500/50 placeholder-white/30 transition-all text-white`}
       />
-      <span className="absolute right-3 top-1/2 -translate-y-1/2 text-white/50 font-semibold pointer-events-none">€</span>
+      <span className="absolute right-3 top-1/2 -translate-y-1/2 text-white/50 font-semibold pointer-events-none">{symbol}</span>
     </div>
   );
 }
 
+// Known codes first, plus whatever the item already uses.
+function CurrencySelect({ value, onChange, className = '' }: { value: string, onChange: (v: string) => void, className?: string }) {
+  const options = CURRENCIES.includes(value) ? CURRENCIES : [value, ...CURRENCIES];
+  return (
+    <select value={value} onChange={(e) => onChange(e.target.value)} className={`bg-black/40 border border-white/10 rounded-xl px-2 py-2 focus:outline-none focus:border-amber-500/50 text-xs text-white font-semibold appearance-none ${className}`}>
+      {options.map(c => <option key={c} value={c} className="bg-zinc-900">{c}</option>)}
+    </select>
+  );
+}
+
+// Holds the profiles and renders the active one. Switching profiles remounts Accountant, so nothing of one profile,
+// its decrypted data included, stays in memory once another one is open.
 export default function App() {
-  const [accounts, setAccounts] = useLocalStorage<Item[]>('hugo_accounts_v3', [
-    { id: '1', name: 'BNP', balance: 0 },
-    { id: '2', name: 'Revolut', balance: 0 },
-  ]);
-  const [pockets, setPockets] = useLocalStorage<Item[]>('hugo_pockets_v3', [
-    { id: 'p1', name: 'Life', balance: 0 },
-    { id: 'p2', name: 'Plaisirs', balance: 0 },
-    { id: 'p3', name: 'Remboursement Papa', balance: 0 },
-    { id: 'p4', name: 'Cadeaux', balance: 0 },
-    { id: 'p5', name: 'Épargne', balance: 0 },
-  ]);
-  const [debts, setDebts] = useLocalStorage<Debt[]>('hugo_debts_v3', []);
-  const [pocketPercentages, setPocketPercentages] = useLocalStorage('hugo_pockets_pct_v3', {
-    'Life': 25, 'Plaisirs': 35, 'Remboursement Papa': 25, 'Cadeaux': 5, 'Épargne': 10
-  });
-  const [showPaycheck, setShowPaycheck] = useState(false);
+  const [registry, setRegistry] = useState<Profiles | null>(loadProfiles);
+  const [adding, setAdding] = useState(false);
+  const { updateReady, applyUpdate } = useServiceWorker();
+  const persisted = usePersistentStorage();
 
-  const getVirtual = (name: string, bal: number) => {
-    let v = bal;
-    debts.forEach(d => {
-      if (d.borrowFrom === name) v += d.amount;
-      if (d.toFund === name) v -= d.amount;
-    });
-    return parseFloat(v.toFixed(2));
+  useEffect(() => {
+    if (registry) saveProfiles(registry);
+  }, [registry]);
+
+  // The first profile takes the default id, which is also where the server keeps records from before profiles.
+  const create = (profile: Omit<Profile, 'id'>, state: StoreState) => {
+    const id = registry ? newId() : DEFAULT_PROFILE;
+    removeProfileData(id);
+    saveStore(state, id);
+    setRegistry(prev => ({ active: id, profiles: [...(prev?.profiles ?? []), { id, ...profile }] }));
+    setAdding(false);
   };
 
-  const revolutBalance = parseFloat(pockets.reduce((acc, curr) => acc + curr.balance, 0).toFixed(2));
-  const displayAccounts = accounts.map(a => a.name === 'Revolut' ? { ...a, balance: revolutBalance, isReadonly: true } : a);
+  const profile = registry?.profiles.find(p => p.id === registry.active);
+  const onboarding = !registry || !profile || adding;
+  useLocale(onboarding ? null : profile.locale);
+  if (onboarding) return <Onboarding first={!registry} onCreate={create} onCancel={() => setAdding(false)} />;
+
+  const switcher = <ProfileSwitcher profile={profile} profiles={registry.profiles} onSwitch={(id: string) => setRegistry({ ...registry, active: id })} onAdd={() => setAdding(true)} />;
+
+  // Keyed so switching profile remounts the whole screen with the other profile's store.
+  return <React.Fragment key={profile.id}><Accountant
+    profile={profile}
+    profiles={registry.profiles}
+    switcher={switcher}
+    onUpdateProfile={(patch: Partial<Profile>) => setRegistry({ ...registry, profiles: registry.profiles.map(p => p.id === profile.id ? { ...p, ...patch } : p) })}
+    onDeleteProfile={(id: string) => {
+      removeProfileData(id);
+      setRegistry({ ...registry, profiles: registry.profiles.filter(p => p.id !== id) });
+    }}
+    onAddProfile={() => setAdding(true)}
+    updateReady={updateReady}
+    applyUpdate={applyUpdate}
+    persisted={persisted}
+  /></React.Fragment>;
+}
+
+function Accountant({ profile, profiles, switcher, onUpdateProfile, onDeleteProfile, onAddProfile, updateReady, applyUpdate, persisted }: { profile: Profile, profiles: Profile[], switcher: React.ReactNode, onUpdateProfile: (patch: Partial<Profile>) => void, onDeleteProfile: (id: string) => void, onAddProfile: () => void, updateReady: boolean, applyUpdate: () => void, persisted: boolean | null }) {
+  const { state, loadErrors, raw, saveError, update, setField, resolve, lock } = useStore(profile.id);
+  const sync = useSync(profile.id, state, resolve);
+  useDailySnapshot(state, setField('snapshots'));
+  useIdleLock(lock.locked ? null : lock.lockAfter, lock.lockNow);
+  const [screen, setScreen] = useState<'dashboard' | 'paycheck' | 'history' | 'import' | 'forecast' | 'spending'>('dashboard');
+  const [paycheckIncome, setPaycheckIncome] = useState<number | null>(null);
+
+  if (lock.locked) return <LockScreen switcher={switcher} onUnlock={lock.unlock} onForget={lock.forget} />;
+  if (!state) return <StorageErrorScreen switcher={switcher} errors={loadErrors} raw={raw} onResolve={resolve} />;
+
+  const { accounts, pockets, debts, splitter, splitPresets, charges, payday, expectedPaycheck, journal, transactions, expenses, snapshots, exchange } = state;
+  const setAccounts = setField('accounts');
+  const setPockets = setField('pockets');
+  const setSplitter = setField('splitter');
+  const setSplitPresets = setField('splitPresets');
+  const setCharges = setField('charges');
+  const setPayday = setField('payday');
+  const setExpectedPaycheck = setField('expectedPaycheck');
+  const setExchange = setField('exchange');
+
+  // Balances, debts and the journal move together in one store update, so an entry can never be half-applied.
+  const applyEntries = (entries: JournalEntry[]) => update(prev => ({
+    ...prev,
+    accounts: entries.reduce((acc, e) => applyBalanceChanges(acc, 'accounts', e.balances), prev.accounts),
+    pockets: entries.reduce((acc, e) => applyBalanceChanges(acc, 'pockets', e.balances), prev.pockets),
+    debts: applyRecordChanges(prev.debts, entries.flatMap(e => e.debts)),
+    transactions: applyRecordChanges(prev.transactions, entries.flatMap(e => e.transactions || [])),
+    expenses: applyRecordChanges(prev.expenses, entries.flatMap(e => e.expenses || [])),
+    journal: [...prev.journal, ...entries],
+  }));
+
+  const record = (kind: JournalKind, label: string, balances: BalanceChange[], debtChanges: DebtChange[] = [], transactionChanges: TransactionChange[] = [], expenseChanges: ExpenseChange[] = []) => {
+    applyEntries([{
+      id: newId(), kind, label, timestamp: new Date().toISOString(), balances, debts: debtChanges,
+      ...(transactionChanges.length ? { transactions: transactionChanges } : {}),
+      ...(expenseChanges.length ? { expenses: expenseChanges } : {}),
+    }]);
+  };
+
+  const undo = (count = 1) => {
+    const targets = journalStacks(journal).done.slice(-count).reverse();
+    applyEntries(targets.map(entry => ({ id: newId(), kind: 'undo', label: t('journal.undone', { label: entry.label }), timestamp: new Date().toISOString(), targetId: entry.id, ...invertEntry(entry) })));
+  };
+
+  const redo = (count = 1) => {
+    const targets = journalStacks(journal).undone.slice(-count).reverse();
+    applyEntries(targets.map(entry => ({ id: newId(), kind: 'redo', label: t('journal.redone', { label: entry.label }), timestamp: new Date().toISOString(), targetId: entry.id, balances: entry.balances, debts: entry.debts, transactions: entry.transactions, expenses: entry.expenses })));
+  };
+
+  const adjustBalance = (collection: Collection, item: Item, balance: number) => {
+    record('adjustment', t('journal.adjusted', { name: item.name }), [{ collection, itemId: item.id, name: item.name, before: item.balance, after: balance }]);
+  };
+
+  // An expense lowers its pocket in the same entry, so undoing it gives the money back.
+  const addExpense = (expense: Expense) => {
+    const pocket = pockets.find(p => p.id === expense.pocketId)!;
+    const balances: BalanceChange[] = [];
+    addToBalance(balances, 'pockets', pocket, -expense.amount);
+    record('expense', t('journal.expenseAdded', { what: expense.merchant || categoryLabel(expense.category), amount: formatMoney(expense.amount, pocket.currency), pocket: pocket.name }), balances, [], [], [{ before: null, after: expense }]);
+  };
+
+  const deleteExpense = (expense: Expense) => {
+    const pocket = pockets.find(p => p.id === expense.pocketId)!;
+    const balances: BalanceChange[] = [];
+    addToBalance(balances, 'pockets', pocket, expense.amount);
+    record('expense', t('journal.expenseDeleted', { what: expense.merchant || categoryLabel(expense.category), pocket: pocket.name }), balances, [], [], [{ before: expense, after: null }]);
+  };
+
+  const getVirtual = (id: string, bal: number) => virtualBalance(debts, id, bal);
+
+  const nameOf = (id: string) => [...accounts, ...pockets].find(i => i.id === id)?.name || '?';
+  const currencyOf = (id: string) => [...accounts, ...pockets].find(i => i.id === id)?.currency || exchange.base;
+  const debtName = (debt: Debt) => `${nameOf(debt.toFund)} ← ${nameOf(debt.borrowFrom)}`;
+
+  // Repaying moves the money back from the item the debt funded to the one it was borrowed from, at the debt's rate.
+  const repay = (debt: Debt, amount: number) => {
+    const after = repayDebt(debt, amount);
+    const paid = parseFloat((debt.remaining - after.remaining).toFixed(2));
+    const balances: BalanceChange[] = [];
+    const funded = accounts.find(a => a.id === debt.toFund);
+    const lender = accounts.find(a => a.id === debt.borrowFrom);
+    addToBalance(balances, funded ? 'accounts' : 'pockets', funded || pockets.find(p => p.id === debt.toFund)!, -parseFloat((paid * (debt.rate ?? 1)).toFixed(2)));
+    addToBalance(balances, lender ? 'accounts' : 'pockets', lender || pockets.find(p => p.id === debt.borrowFrom)!, paid);
+    if (after.status === 'settled') record('debt_settled', t('journal.debtSettled', { debt: debtName(debt) }), balances, [{ before: debt, after }]);
+    else record('debt_repaid', t('journal.debtRepaid', { debt: debtName(debt), amount: formatMoney(paid, currencyOf(debt.borrowFrom)) }), balances, [{ before: debt, after }]);
+  };
+
+  const createDebt = (debt: Debt) => record('debt_created', t('journal.debtCreated', { debt: debtName(debt) }), [], [{ before: null, after: debt }]);
+
+  const setPlan = (debt: Debt, perPaycheck: number) => {
+    const { perPaycheck: _, ...rest } = debt;
+    const after = perPaycheck > 0 ? { ...rest, perPaycheck } : rest;
+    record('debt_updated', perPaycheck > 0 ? t('journal.debtPlan', { debt: debtName(debt), amount: formatMoney(perPaycheck, currencyOf(debt.borrowFrom)) }) : t('journal.debtPlanRemoved', { debt: debtName(debt) }), [], [{ before: debt, after }]);
+  };
+
+  const displayAccounts = accounts.map(a => a.sumOfPockets ? { ...a, balance: accountBalance(a, pockets, exchange), isReadonly: true } : a);
   
-  const bnpBalance = accounts.find(a => a.name === 'BNP')?.balance || 0;
-  const totalNetWorth = parseFloat((bnpBalance + revolutBalance).toFixed(2));
+  // Goals are projected with the current splitter applied to an average paycheck, minus what charges and repayment plans take each month.
+  // All of it is in the main account's currency until it lands in a pocket.
+  const mainAccount = accounts.find(a => a.receivesPaycheck && !a.archived);
+  const avgPaycheck = averagePaycheck(journalStacks(journal).done, [...accounts, ...pockets], mainAccount?.currency || exchange.base, exchange);
+  const today = startOfDay(new Date());
+  const monthlyCharges = mainAccount ? dueCharges(charges, mainAccount.id, today, new Date(today.getFullYear() + 1, today.getMonth(), today.getDate())).reduce((acc, { charge }) => acc + charge.amount, 0) / 12 : 0;
+  const monthlyPlans = mainAccount ? debts.filter(d => d.status === 'open' && d.perPaycheck).reduce((acc, d) => acc + convert(Math.min(d.perPaycheck!, d.remaining), currencyOf(d.borrowFrom), mainAccount.currency, exchange), 0) : 0;
+  const expectedSplit = avgPaycheck !== null ? allocate(Math.max(0, avgPaycheck - monthlyCharges - monthlyPlans), splitter, pockets.filter(p => !p.archived)).byPocket : null;
+  const goals = Object.fromEntries(pockets.filter(p => p.goal).map(p => [p.id, goalProgress(p, expectedSplit ? convert(expectedSplit[p.id] || 0, mainAccount!.currency, p.currency, exchange) : null)]));
+
+  const totalNetWorth = netWorth(accounts, pockets, exchange);
+
+  const quickContext: ParseContext = {
+    accounts,
+    pockets,
+    categories: knownCategories(expenses),
+    defaultPocketId: expenses.find(e => pockets.some(p => p.id === e.pocketId && !p.archived))?.pocketId,
+  };
+
+  const applyQuickAction = (action: QuickAction) => {
+    if (action.kind === 'balance') {
+      const item = (action.collection === 'accounts' ? accounts : pockets).find(i => i.id === action.itemId)!;
+      adjustBalance(action.collection, item, action.mode === 'set' ? action.amount : parseFloat((item.balance + action.amount).toFixed(2)));
+    } else if (action.kind === 'expense') {
+      const { kind, ...expense } = action;
+      addExpense({ id: newId(), ...expense });
+    } else if (action.kind === 'debt') {
+      const { borrowFrom, toFund, amount, note } = action;
+      const [from, to] = [currencyOf(borrowFrom), currencyOf(toFund)];
+      createDebt({ id: Date.now().toString(), date: toDateInput(new Date()), borrowFrom, toFund, amount, note, status: 'open', remaining: amount, repayments: [], ...(from !== to ? { rate: exchangeRate(from, to, exchange) } : {}) });
+    } else {
+      setPaycheckIncome(action.income);
+      setScreen('paycheck');
+    }
+  };
+  const activeSources = [...accounts, ...pockets].filter(i => !i.archived);
 
-  if (showPaycheck) {
+  if (screen === 'paycheck') {
     return <PaycheckFlow 
       accounts={accounts} 
-      setAccounts={setAccounts}
-      pocketPercentages={pocketPercentages} 
-      setPocketPercentages={setPocketPercentages} 
+      initialIncome={paycheckIncome}
+      splitter={splitter}
+      setSplitter={setSplitter}
+      splitPresets={splitPresets}
+      setSplitPresets={setSplitPresets}
+      pockets={pockets}
+      getVirtual={getVirtual}
+      charges={charges}
+      payday={payday}
+      debts={debts}
+      exchange={exchange}
+      nameOf={nameOf}
+      onApply={(label: string, balances: BalanceChange[], debtChanges: DebtChange[]) => record('paycheck', label, balances, debtChanges)}
+      onClose={() => setScreen('dashboard')} 
+    />;
+  }
+
+  if (screen === 'import') {
+    return <ImportScreen
+      accounts={accounts}
+      pockets={pockets}
+      charges={charges}
+      transactions={transactions}
+      exchange={exchange}
+      onApply={(label: string, balances: BalanceChange[], changes: TransactionChange[]) => record('import', label, balances, [], changes)}
+      onClose={() => setScreen('dashboard')}
+    />;
+  }
+
+  if (screen === 'forecast') {
+    return <ForecastScreen
+      accounts={accounts}
       pockets={pockets}
-      setPockets={setPockets}
+      charges={charges}
+      splitter={splitter}
+      debts={debts}
+      exchange={exchange}
+      payday={payday}
       getVirtual={getVirtual}
-      onClose={() => setShowPaycheck(false)} 
+      expectedPaycheck={expectedPaycheck}
+      setExpectedPaycheck={setExpectedPaycheck}
+      avgPaycheck={avgPaycheck}
+      nameOf={nameOf}
+      onClose={() => setScreen('dashboard')}
+    />;
+  }
+
+  if (screen === 'spending') {
+    return <SpendingScreen
+      pockets={pockets}
+      expenses={expenses}
+      entries={journalStacks(journal).done}
+      onDelete={deleteExpense}
+      onClose={() => setScreen('dashboard')}
+    />;
+  }
+
+  if (screen === 'history') {
+    return <HistoryScreen
+      journal={journal}
+      snapshots={snapshots}
+      accounts={accounts}
+      pockets={pockets}
+      nameOf={nameOf}
+      currencyOf={currencyOf}
+      onUndo={undo}
+      onRedo={redo}
+      onAcceptDrift={(balances: BalanceChange[]) => record('adjustment', t('journal.driftRecorded'), balances)}
+      onClose={() => setScreen('dashboard')}
     />;
   }
 
@@ -110,55 +424,369 @@ export default function App() {
       <header className="text-center py-8">
         <motion.div initial={{ scale: 0.8, opacity: 0, rotate: -5 }} animate={{ scale: 1, opacity: 1, rotate: 0 }} transition={{ type: "spring", bounce: 0.5 }}>
           <h1 className="text-4xl font-extrabold tracking-tight bg-gradient-to-r from-amber-200 via-amber-400 to-amber-600 text-transparent bg-clip-text drop-shadow-sm">
-            Hugo's Accountant
+            {t('app.name')}
           </h1>
         </motion.div>
         <motion.p initial={{ opacity: 0 }} animate={{ opacity: 1 }} transition={{ delay: 0.2 }} className="text-amber-200/60 text-sm mt-2 font-medium tracking-widest uppercase">
-          Zero Mental Finance
+          {t('app.tagline')}
         </motion.p>
+        <div className="flex items-center justify-center space-x-2">
+          {switcher}
+          <SyncBadge status={sync.status} pending={sync.pending} rejected={sync.rejected} onSync={sync.sync} />
+        </div>
       </header>
 
-      <motion.button 
-        whileHover={{ scale: 1.03 }}
-        whileTap={{ scale: 0.97 }}
-        onClick={() => setShowPaycheck(true)}
-        className="w-full bg-gradient-to-r from-amber-400 to-amber-500 text-black font-extrabold py-5 rounded-2xl shadow-[0_0_30px_rgba(251,191,36,0.3)] flex items-center justify-center space-x-3"
-      >
-        <Wallet size={24} />
-        <span className="text-xl">Nouvelle Paye</span>
-      </motion.button>
+      {saveError && (
+        <div className="bg-red-500/10 border border-red-500/30 text-red-400 rounded-2xl p-4 text-sm font-semibold flex items-start">
+          <AlertCircle size={18} className="mr-2 mt-0.5 shrink-0" />
+          <span>{t('dashboard.saveError', { error: saveError })}</span>
+        </div>
+      )}
+
+      {updateReady && (
+        <div className="bg-amber-400/10 border border-amber-400/30 text-amber-400 rounded-2xl p-4 text-sm font-semibold flex items-center justify-between">
+          <span className="flex items-center"><RefreshCw size={18} className="mr-2 shrink-0" />{t('dashboard.updateReady')}</span>
+          <motion.button whileHover={{ scale: 1.05 }} whileTap={{ scale: 0.95 }} onClick={applyUpdate} className="bg-amber-400 text-black font-bold px-3 py-1.5 rounded-xl text-xs">{t('dashboard.update')}</motion.button>
+        </div>
+      )}
+
+      <CommandBar context={quickContext} onApply={applyQuickAction} />
+
+      <div className="flex space-x-3">
+        <motion.button 
+          whileHover={{ scale: 1.03 }}
+          whileTap={{ scale: 0.97 }}
+          onClick={() => { setPaycheckIncome(null); setScreen('paycheck'); }}
+          className="flex-1 bg-gradient-to-r from-amber-400 to-amber-500 text-black font-extrabold py-5 rounded-2xl shadow-[0_0_30px_rgba(251,191,36,0.3)] flex items-center justify-center space-x-3"
+        >
+          <Wallet size={24} />
+          <span className="text-xl">{t('dashboard.newPaycheck')}</span>
+        </motion.button>
+        <motion.button
+          whileHover={{ scale: 1.05 }}
+          whileTap={{ scale: 0.95 }}
+          onClick={() => setScreen('history')}
+          className="px-4 bg-white/10 hover:bg-amber-500/20 hover:text-amber-400 border border-white/10 hover:border-amber-500/30 text-white rounded-2xl transition-all"
+        >
+          <History size={24} />
+        </motion.button>
+        <motion.button
+          whileHover={{ scale: 1.05 }}
+          whileTap={{ scale: 0.95 }}
+          onClick={() => setScreen('import')}
+          className="px-4 bg-white/10 hover:bg-amber-500/20 hover:text-amber-400 border border-white/10 hover:border-amber-500/30 text-white rounded-2xl transition-all"
+        >
+          <FileUp size={24} />
+        </motion.button>
+        <motion.button
+          whileHover={{ scale: 1.05 }}
+          whileTap={{ scale: 0.95 }}
+          onClick={() => setScreen('forecast')}
+          className="px-4 bg-white/10 hover:bg-amber-500/20 hover:text-amber-400 border border-white/10 hover:border-amber-500/30 text-white rounded-2xl transition-all"
+        >
+          <TrendingUp size={24} />
+        </motion.button>
+      </div>
+
+      <QuickExpense pockets={pockets.filter(p => !p.archived)} expenses={expenses} onAdd={addExpense} onReport={() => setScreen('spending')} />
 
       <GlassCard delay={0.1}>
         <DashboardList 
-          title="Comptes" 
+          title={t('dashboard.accounts')}
+          kind="accounts"
           items={displayAccounts} 
-          setItems={setAccounts} 
+          setItems={setAccounts}
+          baseCurrency={exchange.base}
+          onAdjust={(item: Item, balance: number) => adjustBalance('accounts', item, balance)} 
           getVirtual={getVirtual} 
-          rightElement={<div className="text-xs font-bold text-amber-200/60 uppercase tracking-wider">Total: <span className="text-amber-400">{totalNetWorth.toFixed(2)}€</span></div>}
+          rightElement={<div className="text-xs font-bold text-amber-200/60 uppercase tracking-wider">{t('dashboard.total')} <span className="text-amber-400">{formatMoney(totalNetWorth, exchange.base)}</span></div>}
         />
         <div className="h-6"></div>
-        <DashboardList title="Poches (Revolut)" items={pockets} setItems={setPockets} getVirtual={getVirtual} />
+        <DashboardList title={t('dashboard.pockets')} kind="pockets" items={pockets} setItems={setPockets} accounts={accounts} baseCurrency={exchange.base} onAdjust={(item: Item, balance: number) => adjustBalance('pockets', item, balance)} getVirtual={getVirtual} goals={goals} />
       </GlassCard>
 
-      <DebtManager debts={debts} setDebts={setDebts} sources={[...accounts.map(a=>a.name), ...pockets.map(p=>p.name)]} />
+      <RatesManager exchange={exchange} setExchange={setExchange} currencies={activeSources.map(i => i.currency)} />
+
+      <ChargesManager charges={charges} setCharges={setCharges} accounts={accounts.filter(a => !a.archived)} exchange={exchange} payday={payday} setPayday={setPayday} />
+
+      <DebtManager
+        debts={debts}
+        onCreate={createDebt}
+        onRepay={repay}
+        onPlan={setPlan}
+        nameOf={nameOf}
+        currencyOf={currencyOf}
+        exchange={exchange}
+        sources={debtSources(accounts, pockets)} />
+
+      <BackupManager state={state} onReplace={resolve} persisted={persisted} />
+
+      <SecurityManager lockAfter={lock.lockAfter} onSetPin={lock.setPin} onRemovePin={lock.removePin} onDelay={lock.setLockDelay} onLock={lock.lockNow} />
+
+      <ProfileManager profile={profile} profiles={profiles} onUpdate={onUpdateProfile} onDelete={onDeleteProfile} onAdd={onAddProfile} />
+    </div>
+  );
+}
+
+function SyncBadge({ status, pending, rejected, onSync }: { status: SyncStatus, pending: number, rejected: number, onSync: () => void }) {
+  const Icon = status === 'syncing' ? RefreshCw : status === 'offline' || status === 'error' ? CloudOff : Cloud;
+  const color = status === 'synced' ? 'text-amber-400 bg-amber-400/10' : status === 'error' ? 'text-red-400 bg-red-400/10' : 'text-white/60 bg-white/10';
+  return (
+    <motion.button initial={{ opacity: 0 }} animate={{ opacity: 1 }} transition={{ delay: 0.3 }} whileTap={{ scale: 0.95 }} onClick={onSync} className={`inline-flex items-center mt-4 px-3 py-1 rounded-full text-xs font-bold ${color}`}>
+      <Icon size={14} className={`mr-1.5 ${status === 'syncing' ? 'animate-spin' : ''}`} />
+      {t(`sync.${status}`)}{pending > 0 && status !== 'synced' ? ` • ${pending}` : ''}{rejected > 0 ? ` • ${t('sync.rejected', { count: rejected })}` : ''}
+    </motion.button>
+  );
+}
+
+function ProfileSwitcher({ profile, profiles, onSwitch, onAdd }: { profile: Profile, profiles: Profile[], onSwitch: (id: string) => void, onAdd: () => void }) {
+  const [open, setOpen] = useState(false);
+  return (
+    <div className="relative inline-block mt-4">
+      <motion.button initial={{ opacity: 0 }} animate={{ opacity: 1 }} transition={{ delay: 0.3 }} whileTap={{ scale: 0.95 }} onClick={() => setOpen(!open)} className="inline-flex items-center px-3 py-1 rounded-full text-xs font-bold text-white/60 bg-white/10 hover:text-amber-400 transition-colors">
+        <Users size={14} className="mr-1.5" />
+        <span className="max-w-[10rem] truncate">{profile.name}</span>
+        <ChevronDown size={14} className="ml-1" />
+      </motion.button>
+      <AnimatePresence>
+        {open && (
+          <motion.div initial={{ opacity: 0, y: -5 }} animate={{ opacity: 1, y: 0 }} exit={{ opacity: 0 }} className="absolute left-1/2 -translate-x-1/2 mt-2 w-52 bg-zinc-900 border border-white/10 rounded-2xl p-2 z-20 text-left shadow-xl">
+            {profiles.map(p => (
+              <button key={p.id} onClick={() => { setOpen(false); if (p.id !== profile.id) onSwitch(p.id); }} className={`w-full flex items-center justify-between px-3 py-2 rounded-xl text-sm font-semibold transition-colors ${p.id === profile.id ? 'text-amber-400 bg-amber-500/10' : 'text-white/80 hover:bg-white/5'}`}>
+                <span className="truncate">{p.name}</span>
+                {p.id === profile.id && <Check size={14} className="shrink-0 ml-2" />}
+              </button>
+            ))}
+            <button onClick={() => { setOpen(false); onAdd(); }} className="w-full flex items-center px-3 py-2 mt-1 rounded-xl text-sm font-semibold text-white/50 hover:text-amber-400 border-t border-white/10 transition-colors">
+              <UserPlus size={14} className="mr-2" />{t('profiles.add')}
+            </button>
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </div>
+  );
+}
+
+// A typed sentence becomes an action, which is only applied once confirmed.
+function CommandBar({ context, onApply }: { context: ParseContext, onApply: (action: QuickAction) => void }) {
+  const [text, setText] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [result, setResult] = useState<ParseResult | null>(null);
+
+  const submit = async () => {
+    if (!text.trim() || busy) return;
+    setBusy(true);
+    try {
+      setResult(await quickEntryParser().parse(text, context));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const confirm = () => {
+    if (result?.ok) onApply(result.action);
+    setResult(null);
+    setText('');
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="relative">
+        <Sparkles size={18} className="absolute left-4 top-1/2 -translate-y-1/2 text-amber-400/60 pointer-events-none" />
+        <input type="text" value={text} onChange={(e) => { setText(e.target.value); setResult(null); }} onKeyDown={(e) => e.key === 'Enter' && submit()} placeholder={t('command.placeholder')} className="w-full bg-black/40 border border-white/10 rounded-2xl pl-11 pr-12 py-3.5 focus:outline-none focus:border-amber-500/50 focus:ring-1 focus:ring-amber-500/50 placeholder-white/30 text-sm font-medium transition-all" />
+        <motion.button whileTap={{ scale: 0.9 }} onClick={submit} disabled={busy || !text.trim()} className="absolute right-2 top-1/2 -translate-y-1/2 p-2 text-white/50 hover:text-amber-400 disabled:opacity-30 transition-colors">
+          {busy ? <RefreshCw size={18} className="animate-spin" /> : <ArrowRight size={18} />}
+        </motion.button>
+      </div>
+      <AnimatePresence>
+        {result && (
+          <motion.div initial={{ opacity: 0, y: -10 }} animate={{ opacity: 1, y: 0 }} exit={{ opacity: 0 }}>
+            {result.ok === false ? (
+              <div className="bg-red-500/10 border border-red-500/30 text-red-400 rounded-2xl p-4 text-sm font-semibold flex items-start">
+                <AlertCircle size={18} className="mr-2 mt-0.5 shrink-0" />
+                <span>{result.error}</span>
+              </div>
+            ) : (
+              <div className="bg-white/5 border border-amber-500/30 rounded-2xl p-4 space-y-3">
+                <div className="flex justify-between items-start text-sm font-semibold">
+                  <span className="text-white/90">{describeAction(result.action, context)}</span>
+                  <span className="ml-3 shrink-0 text-[10px] font-bold uppercase tracking-wider text-white/30">{result.source === 'gemini' ? 'Gemini' : t('command.local')}</span>
+                </div>
+                <div className="grid grid-cols-2 gap-3">
+                  <button onClick={() => setResult(null)} className="bg-white/5 border border-white/10 text-white/60 font-bold py-2.5 rounded-xl text-sm">{t('common.cancel')}</button>
+                  <motion.button whileTap={{ scale: 0.97 }} onClick={confirm} className="bg-amber-400 text-black font-extrabold py-2.5 rounded-xl text-sm">{t('common.apply')}</motion.button>
+                </div>
+              </div>
+            )}
+          </motion.div>
+        )}
+      </AnimatePresence>
     </div>
   );
 }
 
-function DashboardList({ title, items, setItems, getVirtual, rightElement }: any) {
-  const updateBalance = (id: string, balance: number) => {
-    setItems((prev: any) => prev.map((i: any) => i.id === id ? { ...i, balance } : i));
+// The pocket defaults to the last one spent from, since daily spending mostly comes out of the same envelope.
+function QuickExpense({ pockets, expenses, onAdd, onReport }: { pockets: Item[], expenses: Expense[], onAdd: (expense: Expense) => void, onReport: () => void }) {
+  const [amount, setAmount] = useState('');
+  const [pocketId, setPocketId] = useState('');
+  const [category, setCategory] = useState(EXPENSE_CATEGORIES[0]);
+  const [details, setDetails] = useState(false);
+  const [date, setDate] = useState(() => toDateInput(new Date()));
+  const [merchant, setMerchant] = useState('');
+  const [note, setNote] = useState('');
+
+  const lastPocketId = expenses.find((e: Expense) => pockets.some((p: Item) => p.id === e.pocketId))?.pocketId;
+  const pocket: Item | undefined = pockets.find((p: Item) => p.id === (pocketId || lastPocketId)) || pockets[0];
+  const categories = knownCategories(expenses);
+  const value = parseFloat(parseFloat(amount.replace(',', '.')).toFixed(2));
+
+  const add = () => {
+    if (!pocket || !(value > 0) || !category.trim()) return;
+    onAdd({
+      id: newId(), pocketId: pocket.id, amount: value, date: date || toDateInput(new Date()), category: category.trim(),
+      ...(merchant.trim() ? { merchant: merchant.trim() } : {}),
+      ...(note.trim() ? { note: note.trim() } : {}),
+    });
+    setAmount(''); setMerchant(''); setNote(''); setDate(toDateInput(new Date()));
+  };
+
+  if (!pocket) return null;
+
+  return (
+    <GlassCard delay={0.05}>
+      <div className="flex items-center justify-between mb-5">
+        <div className="flex items-center space-x-3">
+          <div className="p-2.5 bg-amber-500/20 text-amber-400 rounded-xl"><Receipt size={20} /></div>
+          <h2 className="text-xl font-bold">{t('expense.title')}</h2>
+        </div>
+        <motion.button whileHover={{ scale: 1.05 }} whileTap={{ scale: 0.95 }} onClick={onReport} className="flex items-center space-x-1.5 text-xs font-bold text-white/60 hover:text-amber-400 px-3 py-1.5 rounded-full border border-white/10 hover:border-amber-500/30 transition-colors">
+          <PieChart size={14} /><span>{t('expense.report')}</span>
+        </motion.button>
+      </div>
+
+      <div className="flex space-x-3 mb-3">
+        <div className="relative flex-1 min-w-0">
+          <input type="text" inputMode="decimal" value={amount} onChange={(e) => setAmount(e.target.value)} onKeyDown={(e) => e.key === 'Enter' && add()} placeholder={formatNumber(0, { minimumFractionDigits: 2 })} className="w-full bg-black/50 border border-amber-500/30 rounded-2xl px-4 py-3 pr-10 text-2xl font-bold focus:outline-none focus:border-amber-400 placeholder-white/20 text-amber-400" />
+          <span className="absolute right-4 top-1/2 -translate-y-1/2 text-white/50 font-bold pointer-events-none">{currencySymbol(pocket.currency)}</span>
+        </div>
+        <select value={pocket.id} onChange={(e) => setPocketId(e.target.value)} className="w-36 bg-black/40 border border-white/10 rounded-2xl px-3 focus:outline-none focus:border-amber-500/50 text-sm text-white font-semibold appearance-none">
+          {pockets.map((p: Item) => <option key={p.id} value={p.id} className="bg-zinc-900">{p.name}</option>)}
+        </select>
+      </div>
+      <div className="text-xs text-white/40 font-medium mb-4">{t('expense.leftIn', { pocket: pocket.name })} <span className={pocket.balance < 0 ? 'text-red-400 font-bold' : 'text-white/70'}>{formatMoney(pocket.balance, pocket.currency)}</span></div>
+
+      <div className="flex flex-wrap gap-2 mb-4">
+        {categories.slice(0, 12).map(c => (
+          <button key={c} onClick={() => setCategory(c)} className={`px-3 py-1.5 rounded-full text-xs font-bold border transition-colors ${category === c ? 'bg-amber-500/20 text-amber-400 border-amber-500/30' : 'bg-white/5 text-white/50 border-white/10'}`}>{categoryLabel(c)}</button>
+        ))}
+      </div>
+
+      <button onClick={() => setDetails(!details)} className="text-xs font-bold text-white/40 hover:text-amber-400 transition-colors mb-4">{details ? t('expense.lessDetails') : t('expense.moreDetails')}</button>
+      <AnimatePresence>
+        {details && (
+          <motion.div initial={{ opacity: 0, height: 0 }} animate={{ opacity: 1, height: 'auto' }} exit={{ opacity: 0, height: 0 }} className="overflow-hidden">
+            <div className="grid grid-cols-2 gap-3 mb-4">
+              <input type="date" value={date} onChange={(e) => setDate(e.target.value)} className="w-full min-w-0 bg-black/40 border border-white/10 rounded-xl px-3 py-2.5 focus:outline-none focus:border-amber-500/50 text-sm text-white font-medium" />
+              <input type="text" list="expense-categories" value={categoryLabel(category)} onChange={(e) => setCategory(categoryFromLabel(e.target.value))} placeholder={t('expense.category')} className="w-full min-w-0 bg-black/40 border border-white/10 rounded-xl px-3 py-2.5 focus:outline-none focus:border-amber-500/50 placeholder-white/30 text-sm font-medium" />
+              <datalist id="expense-categories">{categories.map(c => <option key={c} value={categoryLabel(c)} />)}</datalist>
+              <input type="text" value={merchant} onChange={(e) => setMerchant(e.target.value)} placeholder={t('expense.merchant')} className="w-full min-w-0 bg-black/40 border border-white/10 rounded-xl px-3 py-2.5 focus:outline-none focus:border-amber-500/50 placeholder-white/30 text-sm font-medium" />
+              <input type="text" value={note} onChange={(e) => setNote(e.target.value)} placeholder={t('expense.note')} className="w-full min-w-0 bg-black/40 border border-white/10 rounded-xl px-3 py-2.5 focus:outline-none focus:border-amber-500/50 placeholder-white/30 text-sm font-medium" />
+            </div>
+          </motion.div>
+        )}
+      </AnimatePresence>
+
+      <motion.button whileHover={value > 0 ? { scale: 1.02 } : {}} whileTap={value > 0 ? { scale: 0.98 } : {}} onClick={add} disabled={!(value > 0)} className={`w-full font-bold py-3.5 rounded-xl border transition-all ${value > 0 ? 'bg-white/10 hover:bg-amber-500/20 hover:text-amber-400 border-white/10 hover:border-amber-500/30 text-white' : 'bg-white/5 text-white/30 cursor-not-allowed border-white/10'}`}>
+        {value > 0 ? t('expense.spend', { amount: formatMoney(value, pocket.currency), pocket: pocket.name }) : t('expense.add')}
+      </motion.button>
+    </GlassCard>
+  );
+}
+
+function DashboardList({ title, kind, items, setItems, accounts, baseCurrency, onAdjust, getVirtual, goals, rightElement }: { title: string, kind: Collection, items: (Item & { isReadonly?: boolean })[], setItems: (value: Updater<Item[]>) => void, accounts?: Item[], baseCurrency: string, onAdjust: (item: Item, balance: number) => void, getVirtual: (id: string, balance: number) => number, goals?: Record<string, GoalProgress | null>, rightElement?: React.ReactNode }) {
+  const [editing, setEditing] = useState(false);
+  const [newName, setNewName] = useState('');
+  const visible = items.filter((i: Item) => editing || !i.archived);
+  const pocketAccounts = accounts?.filter((a: Item) => !a.archived) || [];
+  const showAccount = kind === 'pockets' && new Set(items.map((i: Item) => i.accountId)).size > 1;
+
+  const update = (id: string, patch: Partial<Item>) => setItems((prev: Item[]) => prev.map(i => i.id === id ? { ...i, ...patch } : i));
+
+  // A goal only exists while it has a target; clearing the target drops the deadline and label with it.
+  const setGoal = (item: Item, patch: Partial<Goal>) => {
+    const { deadline, label, ...goal } = { target: 0, ...item.goal, ...patch };
+    update(item.id, { goal: goal.target > 0 ? { ...goal, ...(deadline ? { deadline } : {}), ...(label ? { label } : {}) } : undefined });
   };
+
+  const setReceivesPaycheck = (id: string) => setItems((prev: Item[]) => prev.map(i => ({ ...i, receivesPaycheck: i.id === id })));
+
+  const addItem = () => {
+    if (!newName.trim()) return;
+    const defaultAccount = pocketAccounts.find((a: Item) => a.sumOfPockets) || pocketAccounts[0];
+    const item: Item = kind === 'pockets'
+      ? { id: newId(), name: newName.trim(), balance: 0, currency: defaultAccount?.currency || baseCurrency, accountId: defaultAccount?.id }
+      : { id: newId(), name: newName.trim(), balance: 0, currency: baseCurrency };
+    setItems((prev: Item[]) => [...prev, item]);
+    setNewName('');
+  };
+
   return (
     <div className="space-y-4">
       <div className="flex items-center justify-between border-b border-amber-500/20 pb-2">
-        <h3 className="text-xs font-bold text-amber-500/80 uppercase tracking-wider">{title}</h3>
+        <div className="flex items-center space-x-2">
+          <h3 className="text-xs font-bold text-amber-500/80 uppercase tracking-wider">{title}</h3>
+          <motion.button whileHover={{ scale: 1.2 }} whileTap={{ scale: 0.9 }} onClick={() => setEditing(!editing)} className={`p-1 transition-colors ${editing ? 'text-amber-400' : 'text-white/30 hover:text-amber-400'}`}>
+            {editing ? <Check size={14} /> : <Pencil size={14} />}
+          </motion.button>
+        </div>
         {rightElement}
       </div>
       <AnimatePresence>
-        {items.map((item: any, index: number) => {
-          const virtual = getVirtual(item.name, item.balance);
+        {visible.map((item: any, index: number) => {
+          const virtual = getVirtual(item.id, item.balance);
           const hasDebt = virtual !== item.balance;
+          if (editing) {
+            return (
+              <motion.div layout key={item.id} initial={{ opacity: 0 }} animate={{ opacity: 1 }} className={`bg-white/5 p-4 rounded-2xl border border-white/5 space-y-3 ${item.archived ? 'opacity-50' : ''}`}>
+                <div className="flex items-center space-x-2">
+                  <input type="text" value={item.name} onChange={(e) => update(item.id, { name: e.target.value })} className="flex-1 min-w-0 bg-black/40 border border-white/10 rounded-xl px-3 py-2 focus:outline-none focus:border-amber-500/50 text-sm font-semibold" />
+                  <CurrencySelect value={item.currency} onChange={(currency: string) => update(item.id, { currency })} />
+                  <motion.button whileTap={{ scale: 0.9 }} onClick={() => setItems((prev: Item[]) => moveItem(prev, item.id, -1))} className="text-white/40 hover:text-amber-400 p-1 transition-colors"><ArrowUp size={16} /></motion.button>
+                  <motion.button whileTap={{ scale: 0.9 }} onClick={() => setItems((prev: Item[]) => moveItem(prev, item.id, 1))} className="text-white/40 hover:text-amber-400 p-1 transition-colors"><ArrowDown size={16} /></motion.button>
+                  <motion.button whileTap={{ scale: 0.9 }} onClick={() => update(item.id, { archived: !item.archived })} title={item.archived ? t('items.restore') : t('items.archive')} className="text-white/40 hover:text-amber-400 p-1 transition-colors">
+                    {item.archived ? <ArchiveRestore size={16} /> : <Archive size={16} />}
+                  </motion.button>
+                </div>
+                {kind === 'accounts' && (
+                  <div className="flex items-center space-x-4 text-xs text-white/60 font-medium">
+                    <label className="flex items-center space-x-1.5">
+                      <input type="checkbox" checked={!!item.sumOfPockets} onChange={(e) => update(item.id, { sumOfPockets: e.target.checked })} className="accent-amber-400" />
+                      <span>{t('items.sumOfPockets')}</span>
+                    </label>
+                    <label className="flex items-center space-x-1.5">
+                      <input type="radio" checked={!!item.receivesPaycheck} onChange={() => setReceivesPaycheck(item.id)} className="accent-amber-400" />
+                      <span>{t('items.receivesPaycheck')}</span>
+                    </label>
+                  </div>
+                )}
+                {kind === 'pockets' && (
+                  <select value={item.accountId || ''} onChange={(e) => update(item.id, { accountId: e.target.value })} className="w-full bg-black/40 border border-white/10 rounded-xl px-3 py-2 focus:outline-none focus:border-amber-500/50 text-xs text-white font-medium appearance-none">
+                    {pocketAccounts.map((a: Item) => <option key={a.id} value={a.id} className="bg-zinc-900">{t('items.account', { name: a.name })}</option>)}
+                  </select>
+                )}
+                {kind === 'pockets' && (
+                  <div className="grid grid-cols-3 gap-2">
+                    <input type="number" min="0" value={item.goal?.target || ''} onChange={(e) => setGoal(item, { target: parseFloat(e.target.value) || 0 })} placeholder={t('goals.target', { symbol: currencySymbol(item.currency) })} className="w-full min-w-0 bg-black/40 border border-white/10 rounded-xl px-2 py-2 focus:outline-none focus:border-amber-500/50 placeholder-white/30 text-xs font-medium" />
+                    <input type="month" value={item.goal?.deadline || ''} disabled={!item.goal} onChange={(e) => setGoal(item, { deadline: e.target.value })} className="w-full min-w-0 bg-black/40 border border-white/10 rounded-xl px-2 py-2 focus:outline-none focus:border-amber-500/50 text-xs text-white font-medium disabled:opacity-30" />
+                    <input type="text" value={item.goal?.label || ''} disabled={!item.goal} onChange={(e) => setGoal(item, { label: e.target.value })} placeholder={t('goals.for')} className="w-full min-w-0 bg-black/40 border border-white/10 rounded-xl px-2 py-2 focus:outline-none focus:border-amber-500/50 placeholder-white/30 text-xs font-medium disabled:opacity-30" />
+                  </div>
+                )}
+                {item.archived && item.balance !== 0 && (
+                  <div className="text-xs font-bold text-red-400">{t('items.nonZero', { amount: formatMoney(item.balance, item.currency) })}</div>
+                )}
+              </motion.div>
+            );
+          }
           return (
             <motion.div 
               layout
@@ -168,99 +796,220 @@ function DashboardList({ title, items, setItems, getVirtual, rightElement }: any
               key={item.id} 
               className="flex items-center justify-between bg-white/5 p-4 rounded-2xl border border-white/5 hover:border-amber-500/30 transition-colors group"
             >
-              <div>
+              <div className="flex-1 min-w-0 mr-4">
                 <div className="font-semibold text-white/90 group-hover:text-amber-400 transition-colors">{item.name}</div>
+                {showAccount && (
+                  <div className="text-xs text-white/40 font-medium mt-0.5">{accounts.find((a: Item) => a.id === item.accountId)?.name}</div>
+                )}
                 {hasDebt && (
                   <motion.div initial={{ opacity: 0 }} animate={{ opacity: 1 }} className={`text-xs font-bold mt-1 ${virtual < item.balance ? 'text-red-400' : 'text-amber-400'}`}>
-                    Vrai dispo: {virtual.toFixed(2)}€
+                    {t('items.available', { amount: formatMoney(virtual, item.currency) })}
                   </motion.div>
                 )}
+                {goals?.[item.id] && <GoalSummary goal={item.goal} progress={goals[item.id]} currency={item.currency} />}
               </div>
               {item.isReadonly ? (
-                <div className="w-28 px-3 py-2 text-right font-bold text-amber-400 text-lg">{item.balance.toFixed(2)}€</div>
+                <div className="w-28 px-3 py-2 text-right font-bold text-amber-400 text-lg">{formatMoney(item.balance, item.currency)}</div>
               ) : (
-                <CurrencyInput value={item.balance} onChange={(v) => updateBalance(item.id, v)} />
+                <CurrencyInput value={item.balance} currency={item.currency} onChange={(v) => onAdjust(item, v)} />
               )}
             </motion.div>
           );
         })}
       </AnimatePresence>
+      {editing && (
+        <div className="flex space-x-2">
+          <input type="text" value={newName} onChange={(e) => setNewName(e.target.value)} onKeyDown={(e) => e.key === 'Enter' && addItem()} placeholder={kind === 'pockets' ? t('items.newPocket') : t('items.newAccount')} className="flex-1 min-w-0 bg-black/40 border border-white/10 rounded-xl px-3 py-2.5 focus:outline-none focus:border-amber-500/50 placeholder-white/30 text-sm font-medium" />
+          <motion.button whileHover={{ scale: 1.05 }} whileTap={{ scale: 0.95 }} onClick={addItem} className="px-4 bg-white/10 hover:bg-amber-500/20 hover:text-amber-400 border border-white/10 hover:border-amber-500/30 text-white rounded-xl transition-all"><Plus size={18} /></motion.button>
+        </div>
+      )}
     </div>
   );
 }
 
-function PaycheckFlow({ accounts, setAccounts, pocketPercentages, setPocketPercentages, pockets, setPockets, getVirtual, onClose }: any) {
-  const [income, setIncome] = useState<number | ''>('');
-  const rawBnpBalance = accounts.find((a: any) => a.name === 'BNP')?.balance || 0;
-  const bnpBalance = getVirtual('BNP', rawBnpBalance);
-  
+function GoalSummary({ goal, progress, currency }: { goal: Goal, progress: GoalProgress, currency: string }) {
+  const deadline = goal.deadline && formatMonth(goal.deadline, 'short');
+  return (
+    <div className="mt-2 space-y-1.5">
+      <div className="flex justify-between text-xs font-medium text-white/50">
+        <span className="truncate mr-2">{goal.label || t('goals.goal')}{deadline && ` • ${deadline}`}</span>
+        <span className="shrink-0">{t('goals.progress', { percent: Math.round(progress.progress * 100), target: formatMoney(goal.target, currency, { digits: 0 }) })}</span>
+      </div>
+      <div className="h-1.5 bg-white/10 rounded-full overflow-hidden">
+        <motion.div initial={{ width: 0 }} animate={{ width: `${progress.progress * 100}%` }} className={`h-full rounded-full ${progress.onTrack === false ? 'bg-red-400' : 'bg-amber-400'}`} />
+      </div>
+      {progress.remaining === 0 ? (
+        <div className="text-xs font-bold text-amber-400">{t('goals.reached')}</div>
+      ) : progress.monthlyNeeded !== null && (
+        <div className="text-xs font-medium text-white/40">
+          {t('goals.monthlyNeeded', { amount: formatMoney(progress.monthlyNeeded, currency) })}
+          {progress.expected !== null && (
+            <span className={`font-bold ${progress.onTrack ? 'text-amber-400' : 'text-red-400'}`}> • {t(progress.onTrack ? 'goals.onTrack' : 'goals.behind', { amount: formatMoney(progress.expected, currency) })}</span>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function PaycheckFlow({ accounts, initialIncome, splitter, setSplitter, splitPresets, setSplitPresets, pockets, getVirtual, charges, payday, debts, exchange, nameOf, onApply, onClose }: { accounts: Item[], initialIncome: number | null, splitter: Splitter, setSplitter: (splitter: Splitter) => void, splitPresets: SplitPreset[], setSplitPresets: (presets: SplitPreset[]) => void, pockets: Item[], getVirtual: (id: string, balance: number) => number, charges: Charge[], payday: number, debts: Debt[], exchange: Exchange, nameOf: (id: string) => string, onApply: (label: string, balances: BalanceChange[], debtChanges: DebtChange[]) => void, onClose: () => void }) {
+  const [income, setIncome] = useState<number | ''>(initialIncome ?? '');
+  const [until, setUntil] = useState(() => toDateInput(nextPayday(payday)));
+  const mainAccount = accounts.find((a: Item) => a.receivesPaycheck && !a.archived);
+  const rawMainBalance = mainAccount?.balance || 0;
+  const mainBalance = mainAccount ? getVirtual(mainAccount.id, rawMainBalance) : 0;
+  const splitPockets = pockets.filter((p: Item) => !p.archived);
+  // The paycheck is split in the main account's currency and converted as it lands in each pocket.
+  const currency = mainAccount?.currency || exchange.base;
+  const money = (v: number) => formatMoney(v, currency);
+  const lenderCurrency = (debt: Debt) => [...accounts, ...pockets].find((i: Item) => i.id === debt.borrowFrom)?.currency || exchange.base;
+  const toMain = (p: Item, v: number) => convert(v, p.currency, currency, exchange);
+  const splitInput = splitPockets.map((p: Item) => ({ ...p, balance: toMain(p, p.balance), ...(p.goal ? { goal: { ...p.goal, target: toMain(p, p.goal.target) } } : {}) }));
+
+  const upcoming = mainAccount ? dueCharges(charges, mainAccount.id, startOfDay(new Date()), until ? fromDateInput(until) : nextPayday(payday)) : [];
+  const totalCharges = parseFloat(upcoming.reduce((acc, { charge }) => acc + charge.amount, 0).toFixed(2));
+  // Repayment plans are paid from the paycheck to the lender before anything is split.
+  const planned = debts.filter((d: Debt) => d.status === 'open' && d.perPaycheck).map((d: Debt) => {
+    const amount = Math.min(d.perPaycheck!, d.remaining);
+    return { debt: d, amount, cost: convert(amount, lenderCurrency(d), currency, exchange) };
+  });
+  const totalRepayments = parseFloat(planned.reduce((acc: number, r: { cost: number }) => acc + r.cost, 0).toFixed(2));
+  const inc = Number(income) || 0;
+  const totalAvailable = mainBalance + inc;
+  const deficit = totalCharges - mainBalance;
+  const excess = parseFloat(Math.max(0, totalAvailable - totalCharges - totalRepayments).toFixed(2));
+  const result = allocate(excess, splitter, splitInput);
+  const distributed = parseFloat(Object.values(result.byPocket).reduce((acc, v) => acc + v, 0).toFixed(2));
+
+  const [presetId, setPresetId] = useState('');
+  const [presetName, setPresetName] = useState('');
+  const [suggestion, setSuggestion] = useState<'feasible' | 'short' | null>(null);
+  const hasDeadlines = splitPockets.some((p: Item) => p.goal?.deadline);
+
+  const suggest = () => {
+    const suggested = suggestSplitter(excess, splitter, splitInput);
+    setSplitter(suggested.splitter);
+    setSuggestion(suggested.feasible ? 'feasible' : 'short');
+  };
+
+  // Fixed amounts always run before percentages, so they are listed first and only move among themselves.
+  const orderedRules = [...splitter.rules.filter((r: SplitRule) => r.kind === 'fixed'), ...splitter.rules.filter((r: SplitRule) => r.kind === 'percent')];
+  const setRules = (rules: SplitRule[]) => setSplitter({ ...splitter, rules });
+  const updateRule = (id: string, patch: Partial<SplitRule>) => setRules(splitter.rules.map((r: SplitRule) => r.id === id ? { ...r, ...patch } : r));
+  const addRule = () => setRules([...splitter.rules, { id: newId(), pocketId: splitPockets[0].id, kind: 'percent', value: 0 }]);
+  const moveRule = (id: string, direction: -1 | 1) => {
+    const index = orderedRules.findIndex(r => r.id === id);
+    const target = orderedRules[index + direction];
+    if (!target || target.kind !== orderedRules[index].kind) return;
+    const next = [...orderedRules];
+    [next[index], next[index + direction]] = [next[index + direction], next[index]];
+    setRules(next);
+  };
+
+  const loadPreset = (id: string) => {
+    setPresetId(id);
+    const preset = splitPresets.find((p: SplitPreset) => p.id === id);
+    if (!preset) return;
+    setPresetName(preset.name);
+    setSplitter({ rules: preset.rules, remainderPocketId: preset.remainderPocketId });
+  };
+
+  // Saving under an existing name overwrites that preset.
+  const savePreset = () => {
+    const name = presetName.trim();
+    if (!name) return;
+    const existing = splitPresets.find((p: SplitPreset) => p.name === name);
+    const preset = { id: existing?.id || newId(), name, rules: splitter.rules, remainderPocketId: splitter.remainderPocketId };
+    setSplitPresets(existing ? splitPresets.map((p: SplitPreset) => p.id === existing.id ? preset : p) : [...splitPresets, preset]);
+    setPresetId(preset.id);
+  };
+
+  const deletePreset = () => {
+    setSplitPresets(splitPresets.filter((p: SplitPreset) => p.id !== presetId));
+    setPresetId('');
+    setPresetName('');
+  };
+
   const handleApply = () => {
-    const inc = Number(income) || 0;
-    const totalAvailable = bnpBalance + inc;
-    const totalCharges = 236;
-    const excessForRevolut = Math.max(0, totalAvailable - totalCharges);
-    const newBnpBalance = parseFloat((rawBnpBalance + inc - excessForRevolut).toFixed(2));
-    
-    setAccounts((prev: any) => prev.map((a: any) => a.name === 'BNP' ? { ...a, balance: newBnpBalance } : a));
-    
-    setPockets((prev: any) => prev.map((p: any) => {
-      const pct = pocketPercentages[p.name] || 0;
-      const amountToAdd = parseFloat(((excessForRevolut * pct) / 100).toFixed(2));
-      return { ...p, balance: parseFloat((p.balance + amountToAdd).toFixed(2)) };
-    }));
-    
+    const balances: BalanceChange[] = [];
+    if (mainAccount) addToBalance(balances, 'accounts', mainAccount, inc - distributed - totalRepayments);
+
+    planned.forEach(({ debt, amount }: { debt: Debt, amount: number }) => {
+      const account = accounts.find((a: Item) => a.id === debt.borrowFrom);
+      addToBalance(balances, account ? 'accounts' : 'pockets', account || pockets.find((p: Item) => p.id === debt.borrowFrom), amount);
+    });
+
+    splitPockets.forEach((p: Item) => {
+      if (result.byPocket[p.id]) addToBalance(balances, 'pockets', p, convert(result.byPocket[p.id], currency, p.currency, exchange));
+    });
+
+    const debtChanges: DebtChange[] = planned.map(({ debt, amount }: { debt: Debt, amount: number }) => ({ before: debt, after: repayDebt(debt, amount, true) }));
+    onApply(t('journal.paycheck.label', { amount: money(inc) }), balances, debtChanges);
     onClose();
   };
-  
-  const FIXED_EXPENSES = [
-    { name: 'Voiture', amount: 175 },
-    { name: 'Basic-Fit', amount: 35 },
-    { name: 'Coiffeur', amount: 10 },
-    { name: 'Base', amount: 16 },
-  ];
-  const totalCharges = 236;
-  const inc = Number(income) || 0;
-  const totalAvailable = bnpBalance + inc;
-  const deficit = totalCharges - bnpBalance;
-  const excessForRevolut = Math.max(0, totalAvailable - totalCharges);
 
-  const totalPercentage = Object.values(pocketPercentages).reduce((a: any, b: any) => a + b, 0) as number;
-  const isError = totalPercentage !== 100;
+  const isError = result.percentTotal > 100;
 
   return (
     <motion.div initial={{ opacity: 0, scale: 0.95 }} animate={{ opacity: 1, scale: 1 }} exit={{ opacity: 0, scale: 1.05 }} className="max-w-md mx-auto p-4 space-y-6 pb-20 min-h-screen">
       <div className="flex items-center justify-between pt-4 mb-2">
-        <h2 className="text-3xl font-extrabold bg-gradient-to-r from-amber-200 to-amber-500 text-transparent bg-clip-text">Nouvelle Paye</h2>
+        <h2 className="text-3xl font-extrabold bg-gradient-to-r from-amber-200 to-amber-500 text-transparent bg-clip-text">{t('dashboard.newPaycheck')}</h2>
         <motion.button whileHover={{ scale: 1.1, rotate: 90 }} whileTap={{ scale: 0.9 }} onClick={onClose} className="p-2 bg-white/10 rounded-full hover:bg-white/20 text-white"><X size={20} /></motion.button>
       </div>
 
       <GlassCard>
-        <label className="block text-sm text-amber-200/80 mb-3 font-semibold uppercase tracking-wider">Combien as-tu reçu ? (€)</label>
+        <label className="block text-sm text-amber-200/80 mb-3 font-semibold uppercase tracking-wider">{t('paycheck.howMuch', { symbol: currencySymbol(currency) })}</label>
         <motion.input 
           whileFocus={{ scale: 1.02 }}
           type="number" 
           value={income} 
           onChange={(e) => setIncome(parseFloat(e.target.value) || '')}
-          placeholder="Ex: 1500"
+          placeholder={t('paycheck.example')}
           className="w-full bg-black/50 border border-amber-500/30 rounded-2xl px-5 py-5 text-3xl font-bold focus:outline-none focus:border-amber-400 focus:ring-2 focus:ring-amber-400/20 placeholder-white/20 mb-6 transition-all text-amber-400"
           autoFocus
         />
         
         <div className="bg-white/5 rounded-2xl p-5 border border-white/10 space-y-4">
           <div className="flex justify-between text-sm items-center">
-            <span className="text-white/70 font-medium">Vrai dispo BNP Actuel</span>
-            <span className="font-bold text-lg">{bnpBalance.toFixed(2)}€</span>
+            <span className="text-white/70 font-medium">{t('paycheck.currentAvailable', { account: mainAccount?.name || t('paycheck.mainAccount') })}</span>
+            <span className="font-bold text-lg">{money(mainBalance)}</span>
           </div>
           <div className="flex justify-between text-sm items-center">
-            <span className="text-white/70 font-medium">Charges Fixes</span>
-            <span className="font-bold text-red-400 text-lg">-{totalCharges}€</span>
+            <span className="text-white/70 font-medium">{t('paycheck.next')}</span>
+            <input type="date" value={until} onChange={(e) => setUntil(e.target.value)} className="bg-black/40 border border-white/10 rounded-xl px-3 py-1.5 focus:outline-none focus:border-amber-500/50 text-sm text-white font-medium" />
+          </div>
+          <div className="space-y-2">
+            <div className="flex justify-between text-sm items-center">
+              <span className="text-white/70 font-medium">{t('paycheck.fixedCharges')}</span>
+              <span className="font-bold text-red-400 text-lg">-{money(totalCharges)}</span>
+            </div>
+            {upcoming.map(({ charge, date }) => (
+              <div key={`${charge.id}-${date.getTime()}`} className="flex justify-between text-xs text-white/40 font-medium pl-3">
+                <span>{charge.name} • {formatDate(date)}</span>
+                <span>-{money(charge.amount)}</span>
+              </div>
+            ))}
           </div>
+          {planned.length > 0 && (
+            <div className="space-y-2">
+              <div className="flex justify-between text-sm items-center">
+                <span className="text-white/70 font-medium">{t('paycheck.plannedRepayments')}</span>
+                <span className="font-bold text-red-400 text-lg">-{money(totalRepayments)}</span>
+              </div>
+              {planned.map(({ debt, amount, cost }: { debt: Debt, amount: number, cost: number }) => (
+                <div key={debt.id} className="flex justify-between text-xs text-white/40 font-medium pl-3">
+                  <span>{nameOf(debt.toFund)} → {nameOf(debt.borrowFrom)}{amount === debt.remaining && ` • ${t('paycheck.settles')}`}</span>
+                  <span>-{money(cost)}</span>
+                </div>
+              ))}
+            </div>
+          )}
           <div className="border-t border-white/10 pt-4 flex justify-between items-center">
-            <span className="font-semibold text-sm text-white/90">Statut Bunker</span>
+            <span className="font-semibold text-sm text-white/90">{t('paycheck.bunker')}</span>
             {deficit > 0 ? (
-              <motion.span initial={{ scale: 0.8 }} animate={{ scale: 1 }} className="text-red-400 font-bold flex items-center text-sm bg-red-400/10 px-3 py-1 rounded-full"><AlertCircle size={16} className="mr-1.5"/> Manque {deficit.toFixed(2)}€</motion.span>
+              <motion.span initial={{ scale: 0.8 }} animate={{ scale: 1 }} className="text-red-400 font-bold flex items-center text-sm bg-red-400/10 px-3 py-1 rounded-full"><AlertCircle size={16} className="mr-1.5"/> {t('paycheck.short', { amount: money(deficit) })}</motion.span>
             ) : (
-              <motion.span initial={{ scale: 0.8 }} animate={{ scale: 1 }} className="text-amber-400 font-bold flex items-center text-sm bg-amber-400/10 px-3 py-1 rounded-full"><CheckCircle2 size={16} className="mr-1.5"/> Couvert</motion.span>
+              <motion.span initial={{ scale: 0.8 }} animate={{ scale: 1 }} className="text-amber-400 font-bold flex items-center text-sm bg-amber-400/10 px-3 py-1 rounded-full"><CheckCircle2 size={16} className="mr-1.5"/> {t('paycheck.covered')}</motion.span>
             )}
           </div>
         </div>
@@ -273,38 +1022,101 @@ function PaycheckFlow({ accounts, setAccounts, pocketPercentages, setPocketPerce
               <div className="flex items-center justify-between mb-8">
                 <div className="flex items-center space-x-3">
                   <div className="p-2.5 bg-amber-500/20 text-amber-400 rounded-xl"><PiggyBank size={24} /></div>
-                  <h2 className="text-2xl font-bold">Le Splitter</h2>
+                  <h2 className="text-2xl font-bold">{t('splitter.title')}</h2>
                 </div>
                 <motion.div animate={{ scale: isError ? [1, 1.1, 1] : 1 }} className={`px-3 py-1.5 rounded-xl font-bold text-sm ${isError ? 'bg-red-500/20 text-red-400 border border-red-500/30' : 'bg-amber-400 text-black'}`}>
-                  {totalPercentage}%
+                  {result.percentTotal}%
                 </motion.div>
               </div>
 
               <div className="text-center mb-8 bg-black/40 py-6 rounded-3xl border border-amber-500/20 shadow-inner">
-                <div className="text-xs text-amber-200/70 font-bold uppercase tracking-widest mb-2">Excédent à distribuer</div>
-                <div className="text-5xl font-black text-amber-400 drop-shadow-[0_0_15px_rgba(251,191,36,0.4)]">{excessForRevolut.toFixed(2)}€</div>
+                <div className="text-xs text-amber-200/70 font-bold uppercase tracking-widest mb-2">{t('splitter.excess')}</div>
+                <div className="text-5xl font-black text-amber-400 drop-shadow-[0_0_15px_rgba(251,191,36,0.4)]">{money(excess)}</div>
+              </div>
+
+              <div className="flex space-x-2 mb-6">
+                <select value={presetId} onChange={(e) => loadPreset(e.target.value)} className="flex-1 min-w-0 bg-black/40 border border-white/10 rounded-xl px-3 py-2.5 focus:outline-none focus:border-amber-500/50 text-sm text-white font-medium appearance-none">
+                  <option value="" className="bg-zinc-900">{t('splitter.preset')}</option>
+                  {splitPresets.map((p: SplitPreset) => <option key={p.id} value={p.id} className="bg-zinc-900">{p.name}</option>)}
+                </select>
+                {presetId && (
+                  <motion.button whileTap={{ scale: 0.9 }} onClick={deletePreset} title={t('splitter.deletePreset')} className="px-3 text-white/30 hover:text-red-400 transition-colors"><Trash2 size={18} /></motion.button>
+                )}
+                {hasDeadlines && (
+                  <motion.button whileHover={{ scale: 1.05 }} whileTap={{ scale: 0.95 }} onClick={suggest} title={t('splitter.suggest')} className="px-3 bg-white/10 hover:bg-amber-500/20 hover:text-amber-400 border border-white/10 hover:border-amber-500/30 text-white rounded-xl transition-all"><Target size={18} /></motion.button>
+                )}
               </div>
+              {suggestion && (
+                <div className={`-mt-3 mb-6 text-xs font-medium ${suggestion === 'feasible' ? 'text-amber-400' : 'text-red-400'}`}>
+                  {suggestion === 'feasible' ? t('splitter.suggestFeasible') : t('splitter.suggestShort')}
+                </div>
+              )}
 
-              <div className="space-y-6">
-                {Object.entries(pocketPercentages).map(([pocket, pct]) => {
-                  const amount = (excessForRevolut * (pct as number)) / 100;
+              <div className="space-y-3">
+                {orderedRules.map((rule: SplitRule) => {
+                  const allocation = result.allocations.find(a => a.rule.id === rule.id);
                   return (
-                    <motion.div layout key={pocket} className="space-y-3 group">
-                      <div className="flex justify-between items-end">
-                        <span className="font-semibold text-white/90 group-hover:text-amber-300 transition-colors">{pocket}</span>
-                        <div className="text-right">
-                          <div className="font-bold text-xl leading-none text-amber-100">{amount.toFixed(2)}€</div>
-                          <div className="text-amber-400/80 text-xs font-bold mt-1.5">{pct}%</div>
+                    <motion.div layout key={rule.id} className="bg-white/5 p-4 rounded-2xl border border-white/5 space-y-3">
+                      <div className="flex items-center space-x-2">
+                        <select value={rule.pocketId} onChange={(e) => updateRule(rule.id, { pocketId: e.target.value })} className="flex-1 min-w-0 bg-black/40 border border-white/10 rounded-xl px-3 py-2 focus:outline-none focus:border-amber-500/50 text-sm text-white font-semibold appearance-none">
+                          {splitPockets.map((p: Item) => <option key={p.id} value={p.id} className="bg-zinc-900">{p.name}</option>)}
+                        </select>
+                        <motion.button whileTap={{ scale: 0.9 }} onClick={() => moveRule(rule.id, -1)} className="text-white/40 hover:text-amber-400 p-1 transition-colors"><ArrowUp size={16} /></motion.button>
+                        <motion.button whileTap={{ scale: 0.9 }} onClick={() => moveRule(rule.id, 1)} className="text-white/40 hover:text-amber-400 p-1 transition-colors"><ArrowDown size={16} /></motion.button>
+                        <motion.button whileTap={{ scale: 0.9 }} onClick={() => setRules(splitter.rules.filter((r: SplitRule) => r.id !== rule.id))} className="text-white/30 hover:text-red-400 p-1 transition-colors"><Trash2 size={16} /></motion.button>
+                      </div>
+                      <div className="grid grid-cols-3 gap-2">
+                        <div className="flex">
+                          <input type="number" min="0" value={rule.value || ''} onChange={(e) => updateRule(rule.id, { value: parseFloat(e.target.value) || 0 })} placeholder="0" className="w-full min-w-0 bg-black/40 border border-white/10 rounded-l-xl px-2 py-2 text-right focus:outline-none focus:border-amber-500/50 text-sm font-bold" />
+                          <button onClick={() => updateRule(rule.id, { kind: rule.kind === 'fixed' ? 'percent' : 'fixed', min: undefined })} className="px-2 bg-amber-500/20 text-amber-400 border border-amber-500/30 rounded-r-xl text-sm font-bold">{rule.kind === 'fixed' ? currencySymbol(currency) : '%'}</button>
                         </div>
+                        <input type="number" min="0" value={rule.min ?? ''} disabled={rule.kind === 'fixed'} onChange={(e) => updateRule(rule.id, { min: e.target.value === '' ? undefined : parseFloat(e.target.value) })} placeholder={rule.kind === 'fixed' ? '—' : t('splitter.min', { symbol: currencySymbol(currency) })} className="w-full min-w-0 bg-black/40 border border-white/10 rounded-xl px-2 py-2 text-right focus:outline-none focus:border-amber-500/50 placeholder-white/30 text-xs font-medium disabled:opacity-30" />
+                        <input type="number" min="0" value={rule.cap ?? ''} onChange={(e) => updateRule(rule.id, { cap: e.target.value === '' ? undefined : parseFloat(e.target.value) })} placeholder={t('splitter.cap', { symbol: currencySymbol(currency) })} className="w-full min-w-0 bg-black/40 border border-white/10 rounded-xl px-2 py-2 text-right focus:outline-none focus:border-amber-500/50 placeholder-white/30 text-xs font-medium" />
+                      </div>
+                      <div className="flex justify-between items-center text-xs font-medium">
+                        <span className="text-white/40">
+                          {rule.kind === 'fixed' ? t('splitter.fixed') : t('splitter.share')}
+                          {allocation?.capped && <span className="text-amber-400/80"> • {t('splitter.capped')}</span>}
+                          {allocation?.raisedToMin && <span className="text-amber-400/80"> • {t('splitter.minimum')}</span>}
+                        </span>
+                        <span className="font-bold text-base text-amber-100">{money(allocation?.amount || 0)}</span>
                       </div>
-                      <input 
-                        type="range" min="0" max="100" value={pct as number} 
-                        onChange={(e) => setPocketPercentages({ ...pocketPercentages, [pocket]: parseInt(e.target.value) })}
-                        className="w-full"
-                      />
                     </motion.div>
                   );
                 })}
+                <motion.button whileHover={{ scale: 1.02 }} whileTap={{ scale: 0.98 }} onClick={addRule} disabled={splitPockets.length === 0} className="w-full bg-white/10 hover:bg-amber-500/20 hover:text-amber-400 border border-white/10 hover:border-amber-500/30 text-white font-bold py-3 rounded-xl transition-all flex items-center justify-center space-x-2 text-sm">
+                  <Plus size={16} /><span>{t('splitter.addRule')}</span>
+                </motion.button>
+              </div>
+
+              <div className="mt-6 bg-black/40 p-4 rounded-2xl border border-amber-500/20 flex items-center justify-between space-x-3">
+                <div className="min-w-0">
+                  <div className="text-xs text-amber-200/70 font-bold uppercase tracking-wider mb-1.5">{t('splitter.remainder')}</div>
+                  <select value={splitter.remainderPocketId} onChange={(e) => setSplitter({ ...splitter, remainderPocketId: e.target.value })} className="bg-black/40 border border-white/10 rounded-xl px-3 py-1.5 focus:outline-none focus:border-amber-500/50 text-sm text-white font-medium appearance-none">
+                    <option value="" className="bg-zinc-900">{t('splitter.stayOn', { account: mainAccount?.name || t('splitter.theAccount') })}</option>
+                    {splitPockets.map((p: Item) => <option key={p.id} value={p.id} className="bg-zinc-900">{p.name}</option>)}
+                  </select>
+                </div>
+                <span className="font-bold text-lg text-amber-100">{money(result.remainder)}</span>
+              </div>
+
+              {Object.keys(result.byPocket).length > 0 && (
+                <div className="mt-6 space-y-2">
+                  {splitPockets.filter((p: Item) => result.byPocket[p.id]).map((p: Item) => {
+                    const received = convert(result.byPocket[p.id], currency, p.currency, exchange);
+                    return (
+                      <div key={p.id} className="flex justify-between text-sm font-medium">
+                        <span className="text-white/70">{p.name}</span>
+                        <span><span className="text-amber-400 font-bold">+{formatMoney(received, p.currency)}</span> <span className="text-white/40 text-xs">→ {formatMoney(p.balance + received, p.currency)}</span></span>
+                      </div>
+                    );
+                  })}
+                </div>
+              )}
+
+              <div className="flex space-x-2 mt-6">
+                <input type="text" value={presetName} onChange={(e) => setPresetName(e.target.value)} onKeyDown={(e) => e.key === 'Enter' && savePreset()} placeholder={t('splitter.presetName')} className="flex-1 min-w-0 bg-black/40 border border-white/10 rounded-xl px-3 py-2.5 focus:outline-none focus:border-amber-500/50 placeholder-white/30 text-sm font-medium" />
+                <motion.button whileHover={{ scale: 1.05 }} whileTap={{ scale: 0.95 }} onClick={savePreset} className="px-4 bg-white/10 hover:bg-amber-500/20 hover:text-amber-400 border border-white/10 hover:border-amber-500/30 text-white font-bold rounded-xl transition-all text-sm">{t('common.save')}</motion.button>
               </div>
               
               <motion.button 
@@ -315,7 +1127,7 @@ function PaycheckFlow({ accounts, setAccounts, pocketPercentages, setPocketPerce
                 className={`w-full mt-10 font-extrabold py-5 rounded-2xl shadow-lg transition-all flex items-center justify-center space-x-3 ${isError ? 'bg-white/5 text-white/30 cursor-not-allowed border border-white/10' : 'bg-gradient-to-r from-amber-400 to-amber-600 text-black shadow-[0_0_20px_rgba(251,191,36,0.3)]'}`}
               >
                 <CheckCircle2 size={24} />
-                <span className="text-lg">Valider la distribution</span>
+                <span className="text-lg">{t('splitter.confirm')}</span>
               </motion.button>
             </GlassCard>
           </motion.div>
@@ -325,83 +1137,1563 @@ function PaycheckFlow({ accounts, setAccounts, pocketPercentages, setPocketPerce
   );
 }
 
-function DebtManager({ debts, setDebts, sources }: any) {
-  const [borrowFrom, setBorrowFrom] = useState(sources[0] || 'BNP');
-  const [toFund, setToFund] = useState(sources[1] || 'Cadeaux');
+function DebtManager({ debts, onCreate, onRepay, onPlan, nameOf, currencyOf, exchange, sources }: { debts: Debt[], onCreate: (debt: Debt) => void, onRepay: (debt: Debt, amount: number) => void, onPlan: (debt: Debt, perPaycheck: number) => void, nameOf: (id: string) => string, currencyOf: (id: string) => string, exchange: Exchange, sources: Item[] }) {
+  const [borrowFrom, setBorrowFrom] = useState('');
+  const [toFund, setToFund] = useState('');
   const [amount, setAmount] = useState('');
   const [note, setNote] = useState('');
+  const [perPaycheck, setPerPaycheck] = useState('');
+  const [rate, setRate] = useState('');
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const [repayment, setRepayment] = useState('');
+  const [showSettled, setShowSettled] = useState(false);
+
+  // Amounts are in the lender's currency; between two currencies the rate used is kept on the debt, so repaying it later
+  // frees exactly what was borrowed even if the exchange rates have moved since.
+  const lender = pickItem(sources, borrowFrom);
+  const funded = pickItem(sources, toFund, lender);
+  const lenderCurrency = currencyOf(lender);
+  const fundedCurrency = currencyOf(funded);
+  const crossCurrency = lenderCurrency !== fundedCurrency;
+  const defaultRate = exchangeRate(lenderCurrency, fundedCurrency, exchange);
+
+  const open = debts.filter((d: Debt) => d.status === 'open');
+  const settled = debts.filter((d: Debt) => d.status === 'settled').sort((a: Debt, b: Debt) => (b.settledAt || '').localeCompare(a.settledAt || ''));
 
   const addDebt = () => {
-    if (!amount || isNaN(Number(amount))) return;
+    if (!lender || !funded || !amount || isNaN(Number(amount))) return;
     const roundedAmount = parseFloat(parseFloat(amount).toFixed(2));
-    setDebts([{ id: Date.now().toString(), date: new Date().toLocaleDateString(), borrowFrom, toFund, amount: roundedAmount, note }, ...debts]);
-    setAmount(''); setNote('');
+    const plan = parseFloat(parseFloat(perPaycheck).toFixed(2));
+    const debtRate = parseFloat(rate) > 0 ? parseFloat(rate) : defaultRate;
+    onCreate({ id: Date.now().toString(), date: toDateInput(new Date()), borrowFrom: lender, toFund: funded, amount: roundedAmount, note, status: 'open', remaining: roundedAmount, repayments: [], ...(plan > 0 ? { perPaycheck: plan } : {}), ...(crossCurrency ? { rate: debtRate } : {}) });
+    setAmount(''); setNote(''); setPerPaycheck(''); setRate('');
+  };
+
+  const repayPartially = (debt: Debt) => {
+    const value = parseFloat(parseFloat(repayment).toFixed(2));
+    if (!(value > 0)) return;
+    onRepay(debt, Math.min(value, debt.remaining));
+    setRepayment('');
+  };
+
+  const toggle = (id: string) => {
+    setExpanded(expanded === id ? null : id);
+    setRepayment('');
   };
 
   return (
     <GlassCard delay={0.2}>
       <div className="flex items-center space-x-3 mb-6">
         <div className="p-2.5 bg-amber-500/20 text-amber-400 rounded-xl"><ArrowRightLeft size={20} /></div>
-        <h2 className="text-xl font-bold">Dettes & Transferts</h2>
+        <h2 className="text-xl font-bold">{t('debts.title')}</h2>
       </div>
 
       <div className="bg-white/5 p-5 rounded-3xl space-y-5 mb-8 border border-white/5">
         <div className="grid grid-cols-2 gap-4">
           <div>
-            <label className="block text-xs text-amber-200/70 mb-1.5 font-semibold uppercase tracking-wider">Emprunté à</label>
-            <select value={borrowFrom} onChange={(e) => setBorrowFrom(e.target.value)} className="w-full bg-black/40 border border-white/10 rounded-xl px-3 py-3 focus:outline-none focus:border-amber-500/50 text-sm text-white font-medium appearance-none">
-              {sources.map((s: string) => <option key={s} value={s} className="bg-zinc-900">{s}</option>)}
+            <label className="block text-xs text-amber-200/70 mb-1.5 font-semibold uppercase tracking-wider">{t('debts.borrowedFrom')}</label>
+            <select value={lender} onChange={(e) => setBorrowFrom(e.target.value)} className="w-full bg-black/40 border border-white/10 rounded-xl px-3 py-3 focus:outline-none focus:border-amber-500/50 text-sm text-white font-medium appearance-none">
+              {sources.map((s: Item) => <option key={s.id} value={s.id} className="bg-zinc-900">{s.name}</option>)}
             </select>
           </div>
           <div>
-            <label className="block text-xs text-amber-200/70 mb-1.5 font-semibold uppercase tracking-wider">Pour financer</label>
-            <select value={toFund} onChange={(e) => setToFund(e.target.value)} className="w-full bg-black/40 border border-white/10 rounded-xl px-3 py-3 focus:outline-none focus:border-amber-500/50 text-sm text-white font-medium appearance-none">
-              {sources.map((s: string) => <option key={s} value={s} className="bg-zinc-900">{s}</option>)}
+            <label className="block text-xs text-amber-200/70 mb-1.5 font-semibold uppercase tracking-wider">{t('debts.toFund')}</label>
+            <select value={funded} onChange={(e) => setToFund(e.target.value)} className="w-full bg-black/40 border border-white/10 rounded-xl px-3 py-3 focus:outline-none focus:border-amber-500/50 text-sm text-white font-medium appearance-none">
+              {sources.filter((s: Item) => s.id !== lender).map((s: Item) => <option key={s.id} value={s.id} className="bg-zinc-900">{s.name}</option>)}
             </select>
           </div>
         </div>
         <div className="grid grid-cols-2 gap-4">
           <div>
-            <label className="block text-xs text-amber-200/70 mb-1.5 font-semibold uppercase tracking-wider">Montant (€)</label>
+            <label className="block text-xs text-amber-200/70 mb-1.5 font-semibold uppercase tracking-wider">{t('debts.amount', { symbol: currencySymbol(lenderCurrency) })}</label>
             <input type="number" value={amount} onChange={(e) => setAmount(e.target.value)} placeholder="0.00" className="w-full bg-black/40 border border-white/10 rounded-xl px-3 py-3 focus:outline-none focus:border-amber-500/50 placeholder-white/30 text-sm font-medium" />
           </div>
           <div>
-            <label className="block text-xs text-amber-200/70 mb-1.5 font-semibold uppercase tracking-wider">Note (opt)</label>
-            <input type="text" value={note} onChange={(e) => setNote(e.target.value)} placeholder="Ex: Cadeau" className="w-full bg-black/40 border border-white/10 rounded-xl px-3 py-3 focus:outline-none focus:border-amber-500/50 placeholder-white/30 text-sm font-medium" />
+            <label className="block text-xs text-amber-200/70 mb-1.5 font-semibold uppercase tracking-wider">{t('debts.note')}</label>
+            <input type="text" value={note} onChange={(e) => setNote(e.target.value)} placeholder={t('debts.noteExample')} className="w-full bg-black/40 border border-white/10 rounded-xl px-3 py-3 focus:outline-none focus:border-amber-500/50 placeholder-white/30 text-sm font-medium" />
           </div>
         </div>
-        <motion.button whileHover={{ scale: 1.02 }} whileTap={{ scale: 0.98 }} onClick={addDebt} className="w-full bg-white/10 hover:bg-amber-500/20 hover:text-amber-400 border border-white/10 hover:border-amber-500/30 text-white font-bold py-3.5 rounded-xl transition-all mt-2">
-          Ajouter la dette
+        <div>
+          <label className="block text-xs text-amber-200/70 mb-1.5 font-semibold uppercase tracking-wider">{t('debts.perPaycheck')}</label>
+          <input type="number" value={perPaycheck} onChange={(e) => setPerPaycheck(e.target.value)} placeholder={t('debts.perPaycheckExample')} className="w-full bg-black/40 border border-white/10 rounded-xl px-3 py-3 focus:outline-none focus:border-amber-500/50 placeholder-white/30 text-sm font-medium" />
+        </div>
+        {crossCurrency && (
+          <div>
+            <label className="block text-xs text-amber-200/70 mb-1.5 font-semibold uppercase tracking-wider">{t('debts.rate', { from: lenderCurrency, to: fundedCurrency })}</label>
+            <input type="number" step="any" value={rate} onChange={(e) => setRate(e.target.value)} placeholder={String(defaultRate)} className="w-full bg-black/40 border border-white/10 rounded-xl px-3 py-3 focus:outline-none focus:border-amber-500/50 placeholder-white/30 text-sm font-medium" />
+            {parseFloat(amount) > 0 && (
+              <div className="text-xs text-white/40 font-medium mt-1.5">{t('debts.receives', { name: nameOf(funded), amount: formatMoney(parseFloat(amount) * (parseFloat(rate) > 0 ? parseFloat(rate) : defaultRate), fundedCurrency) })}</div>
+            )}
+          </div>
+        )}
+        <motion.button whileHover={{ scale: 1.02 }} whileTap={{ scale: 0.98 }} onClick={addDebt} disabled={!lender || !funded} className="w-full bg-white/10 hover:bg-amber-500/20 hover:text-amber-400 border border-white/10 hover:border-amber-500/30 text-white font-bold py-3.5 rounded-xl transition-all mt-2 disabled:opacity-30">
+          {t('debts.add')}
         </motion.button>
       </div>
 
       <div className="space-y-4">
-        <h3 className="text-xs font-bold text-amber-500/80 uppercase tracking-wider border-b border-amber-500/20 pb-2">Historique</h3>
-        {debts.length === 0 ? (
-          <motion.p initial={{ opacity: 0 }} animate={{ opacity: 1 }} className="text-sm text-white/40 text-center py-8 bg-black/20 rounded-2xl border border-white/5 font-medium">Aucune dette en cours 🎉</motion.p>
-        ) : (
+        <div className="flex items-center justify-between border-b border-amber-500/20 pb-2">
+          <h3 className="text-xs font-bold text-amber-500/80 uppercase tracking-wider">{showSettled ? t('debts.settledTitle') : t('debts.openTitle')}</h3>
+          {settled.length > 0 && (
+            <button onClick={() => setShowSettled(!showSettled)} className="text-xs font-bold text-white/40 hover:text-amber-400 transition-colors">
+              {showSettled ? t('debts.showOpen', { count: open.length }) : t('debts.showSettled', { count: settled.length })}
+            </button>
+          )}
+        </div>
+        {showSettled ? (
           <div className="space-y-3">
-            <AnimatePresence>
-              {debts.map((debt: Debt) => (
-                <motion.div layout key={debt.id} initial={{ opacity: 0, x: -20, scale: 0.95 }} animate={{ opacity: 1, x: 0, scale: 1 }} exit={{ opacity: 0, scale: 0.9, transition: { duration: 0.2 } }} className="bg-black/40 p-4 rounded-2xl flex justify-between items-center border border-white/5 hover:border-amber-500/20 transition-colors group">
-                  <div>
-                    <div className="flex items-center space-x-2 text-sm">
-                      <span className="font-bold text-amber-400">{debt.toFund}</span>
-                      <ArrowRightLeft size={14} className="text-white/40" />
-                      <span className="text-white/80 font-medium">{debt.borrowFrom}</span>
-                    </div>
-                    <div className="text-xs text-white/40 mt-1.5 font-medium">{debt.date} {debt.note && <span className="text-white/60">• {debt.note}</span>}</div>
+            {settled.map((debt: Debt) => (
+              <div key={debt.id} className="bg-black/20 p-4 rounded-2xl flex justify-between items-center border border-white/5">
+                <div>
+                  <div className="flex items-center space-x-2 text-sm">
+                    <span className="font-bold text-white/70">{nameOf(debt.toFund)}</span>
+                    <ArrowRightLeft size={14} className="text-white/30" />
+                    <span className="text-white/60 font-medium">{nameOf(debt.borrowFrom)}</span>
                   </div>
-                  <div className="flex items-center space-x-4">
-                    <span className="font-black text-lg">{debt.amount.toFixed(2)}€</span>
-                    <motion.button whileHover={{ scale: 1.2, rotate: 15 }} whileTap={{ scale: 0.9 }} onClick={() => setDebts(debts.filter((d: Debt) => d.id !== debt.id))} className="text-white/30 hover:text-amber-400 p-1 transition-colors"><CheckCircle2 size={22} /></motion.button>
+                  <div className="text-xs text-white/40 mt-1.5 font-medium">
+                    {formatDate(debt.date)} → {debt.settledAt ? formatDate(debt.settledAt) : '?'} • {t('debts.repayments', { count: debt.repayments.length })}
+                    {debt.note && <span className="text-white/60"> • {debt.note}</span>}
                   </div>
-                </motion.div>
-              ))}
-            </AnimatePresence>
-          </div>
+                </div>
+                <span className="font-bold text-white/60 flex items-center"><CheckCircle2 size={16} className="mr-1.5 text-amber-400/60" />{formatMoney(debt.amount, currencyOf(debt.borrowFrom))}</span>
+              </div>
+            ))}
+          </div>
+        ) : open.length === 0 ? (
+          <motion.p initial={{ opacity: 0 }} animate={{ opacity: 1 }} className="text-sm text-white/40 text-center py-8 bg-black/20 rounded-2xl border border-white/5 font-medium">{t('debts.none')}</motion.p>
+        ) : (
+          <div className="space-y-3">
+            <AnimatePresence>
+              {open.map((debt: Debt) => (
+                <motion.div layout key={debt.id} initial={{ opacity: 0, x: -20, scale: 0.95 }} animate={{ opacity: 1, x: 0, scale: 1 }} exit={{ opacity: 0, scale: 0.9, transition: { duration: 0.2 } }} className="bg-black/40 p-4 rounded-2xl border border-white/5 hover:border-amber-500/20 transition-colors group">
+                  <div className="flex justify-between items-center">
+                    <button onClick={() => toggle(debt.id)} className="text-left">
+                      <div className="flex items-center space-x-2 text-sm">
+                        <span className="font-bold text-amber-400">{nameOf(debt.toFund)}</span>
+                        <ArrowRightLeft size={14} className="text-white/40" />
+                        <span className="text-white/80 font-medium">{nameOf(debt.borrowFrom)}</span>
+                      </div>
+                      <div className="text-xs text-white/40 mt-1.5 font-medium">
+                        {formatDate(debt.date)} {debt.note && <span className="text-white/60">• {debt.note}</span>}
+                        {debt.perPaycheck && <span className="text-amber-400/70"> • {t('debts.planShort', { amount: formatMoney(debt.perPaycheck, currencyOf(debt.borrowFrom)) })}</span>}
+                        {debt.rate && <span> • 1 {currencyOf(debt.borrowFrom)} = {debt.rate} {currencyOf(debt.toFund)}</span>}
+                      </div>
+                    </button>
+                    <div className="flex items-center space-x-4">
+                      <div className="text-right">
+                        <div className="font-black text-lg">{formatMoney(debt.remaining, currencyOf(debt.borrowFrom))}</div>
+                        {debt.remaining !== debt.amount && <div className="text-xs text-white/40 font-medium">{t('debts.outOf', { amount: formatMoney(debt.amount, currencyOf(debt.borrowFrom)) })}</div>}
+                      </div>
+                      <motion.button whileHover={{ scale: 1.2, rotate: 15 }} whileTap={{ scale: 0.9 }} onClick={() => onRepay(debt, debt.remaining)} title={t('debts.repayAll')} className="text-white/30 hover:text-amber-400 p-1 transition-colors"><CheckCircle2 size={22} /></motion.button>
+                    </div>
+                  </div>
+                  {debt.remaining !== debt.amount && (
+                    <div className="h-1.5 bg-white/10 rounded-full mt-3 overflow-hidden">
+                      <div className="h-full bg-amber-400 rounded-full" style={{ width: `${((debt.amount - debt.remaining) / debt.amount) * 100}%` }} />
+                    </div>
+                  )}
+                  <AnimatePresence>
+                    {expanded === debt.id && (
+                      <motion.div initial={{ opacity: 0, height: 0 }} animate={{ opacity: 1, height: 'auto' }} exit={{ opacity: 0, height: 0 }} className="overflow-hidden">
+                        <div className="pt-4 mt-3 border-t border-white/10 space-y-3">
+                          <div className="flex space-x-2">
+                            <input type="number" value={repayment} onChange={(e) => setRepayment(e.target.value)} onKeyDown={(e) => e.key === 'Enter' && repayPartially(debt)} placeholder={t('debts.repaidAmount')} className="flex-1 min-w-0 bg-black/40 border border-white/10 rounded-xl px-3 py-2 focus:outline-none focus:border-amber-500/50 placeholder-white/30 text-sm font-medium" />
+                            <motion.button whileHover={{ scale: 1.05 }} whileTap={{ scale: 0.95 }} onClick={() => repayPartially(debt)} className="px-4 bg-white/10 hover:bg-amber-500/20 hover:text-amber-400 border border-white/10 hover:border-amber-500/30 text-white font-bold rounded-xl transition-all text-sm">{t('debts.repay')}</motion.button>
+                          </div>
+                          <div className="flex justify-between items-center text-xs text-white/60 font-medium">
+                            <span>{t('debts.plan')}</span>
+                            <CurrencyInput value={debt.perPaycheck || 0} currency={currencyOf(debt.borrowFrom)} onChange={(v) => onPlan(debt, v)} />
+                          </div>
+                          {debt.repayments.map(r => (
+                            <div key={r.id} className="flex justify-between text-xs text-white/40 font-medium">
+                              <span>{formatDate(r.date)}{r.fromPaycheck && ` • ${t('debts.fromPaycheck')}`}</span>
+                              <span className="text-amber-400/80">-{formatMoney(r.amount, currencyOf(debt.borrowFrom))}</span>
+                            </div>
+                          ))}
+                        </div>
+                      </motion.div>
+                    )}
+                  </AnimatePresence>
+                </motion.div>
+              ))}
+            </AnimatePresence>
+          </div>
+        )}
+      </div>
+    </GlassCard>
+  );
+}
+
+function ChargesManager({ charges, setCharges, accounts, exchange, payday, setPayday }: { charges: Charge[], setCharges: (charges: Charge[]) => void, accounts: Item[], exchange: Exchange, payday: number, setPayday: (payday: number) => void }) {
+  const emptyDraft = () => ({ name: '', amount: '', day: '1', frequency: 'monthly' as Frequency, everyMonths: '3', startMonth: monthKey(new Date()), accountId: '' });
+  const [draft, setDraft] = useState(emptyDraft);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const accountId = pickItem(accounts, draft.accountId);
+
+  // A charge is in the currency of the account it is taken from; the monthly total is in the base currency.
+  const currencyOf = (accountId: string) => accounts.find((a: Item) => a.id === accountId)?.currency || exchange.base;
+  const monthlyTotal = charges.reduce((acc: number, c: Charge) => {
+    const period = c.frequency === 'monthly' ? 1 : c.frequency === 'yearly' ? 12 : Math.max(1, c.everyMonths);
+    return acc + convert(c.amount, currencyOf(c.accountId), exchange.base, exchange) / period;
+  }, 0);
+
+  const saveCharge = () => {
+    const amount = parseFloat(draft.amount);
+    const day = parseInt(draft.day);
+    if (!draft.name.trim() || isNaN(amount) || isNaN(day) || !accountId) return;
+    const charge: Charge = {
+      id: editingId || Date.now().toString(),
+      name: draft.name.trim(),
+      amount: parseFloat(amount.toFixed(2)),
+      day: Math.min(31, Math.max(1, day)),
+      frequency: draft.frequency,
+      everyMonths: Math.max(1, parseInt(draft.everyMonths) || 1),
+      startMonth: draft.startMonth || monthKey(new Date()),
+      accountId,
+    };
+    setCharges(editingId ? charges.map((c: Charge) => c.id === editingId ? charge : c) : [...charges, charge]);
+    setEditingId(null); setDraft(emptyDraft());
+  };
+
+  const editCharge = (c: Charge) => {
+    setEditingId(c.id);
+    setDraft({ name: c.name, amount: String(c.amount), day: String(c.day), frequency: c.frequency, everyMonths: String(c.everyMonths), startMonth: c.startMonth, accountId: c.accountId });
+  };
+
+  const removeCharge = (id: string) => {
+    setCharges(charges.filter((c: Charge) => c.id !== id));
+    if (editingId === id) { setEditingId(null); setDraft(emptyDraft()); }
+  };
+
+  return (
+    <GlassCard delay={0.15}>
+      <div className="flex items-center justify-between mb-6">
+        <div className="flex items-center space-x-3">
+          <div className="p-2.5 bg-amber-500/20 text-amber-400 rounded-xl"><CalendarClock size={20} /></div>
+          <h2 className="text-xl font-bold">{t('charges.title')}</h2>
+        </div>
+        <div className="text-xs font-bold text-amber-200/60 uppercase tracking-wider">~<span className="text-amber-400">{formatMoney(monthlyTotal, exchange.base)}</span>{t('charges.perMonth')}</div>
+      </div>
+
+      <div className="bg-white/5 p-5 rounded-3xl space-y-5 mb-8 border border-white/5">
+        <div className="flex items-center justify-between">
+          <label className="text-xs text-amber-200/70 font-semibold uppercase tracking-wider">{t('charges.payday')}</label>
+          <input type="number" min="1" max="31" value={payday} onChange={(e) => setPayday(Math.min(31, Math.max(1, parseInt(e.target.value) || 1)))} className="w-20 bg-black/40 border border-white/10 rounded-xl px-3 py-2 text-right focus:outline-none focus:border-amber-500/50 text-sm font-medium" />
+        </div>
+        <div className="grid grid-cols-2 gap-4">
+          <div>
+            <label className="block text-xs text-amber-200/70 mb-1.5 font-semibold uppercase tracking-wider">{t('charges.name')}</label>
+            <input type="text" value={draft.name} onChange={(e) => setDraft({ ...draft, name: e.target.value })} placeholder={t('charges.nameExample')} className="w-full bg-black/40 border border-white/10 rounded-xl px-3 py-3 focus:outline-none focus:border-amber-500/50 placeholder-white/30 text-sm font-medium" />
+          </div>
+          <div>
+            <label className="block text-xs text-amber-200/70 mb-1.5 font-semibold uppercase tracking-wider">{t('debts.amount', { symbol: currencySymbol(currencyOf(accountId)) })}</label>
+            <input type="number" value={draft.amount} onChange={(e) => setDraft({ ...draft, amount: e.target.value })} placeholder="0.00" className="w-full bg-black/40 border border-white/10 rounded-xl px-3 py-3 focus:outline-none focus:border-amber-500/50 placeholder-white/30 text-sm font-medium" />
+          </div>
+        </div>
+        <div className="grid grid-cols-2 gap-4">
+          <div>
+            <label className="block text-xs text-amber-200/70 mb-1.5 font-semibold uppercase tracking-wider">{t('charges.day')}</label>
+            <input type="number" min="1" max="31" value={draft.day} onChange={(e) => setDraft({ ...draft, day: e.target.value })} className="w-full bg-black/40 border border-white/10 rounded-xl px-3 py-3 focus:outline-none focus:border-amber-500/50 text-sm font-medium" />
+          </div>
+          <div>
+            <label className="block text-xs text-amber-200/70 mb-1.5 font-semibold uppercase tracking-wider">{t('charges.account')}</label>
+            <select value={accountId} onChange={(e) => setDraft({ ...draft, accountId: e.target.value })} className="w-full bg-black/40 border border-white/10 rounded-xl px-3 py-3 focus:outline-none focus:border-amber-500/50 text-sm text-white font-medium appearance-none">
+              {accounts.map((a: Item) => <option key={a.id} value={a.id} className="bg-zinc-900">{a.name}</option>)}
+            </select>
+          </div>
+        </div>
+        <div className="grid grid-cols-2 gap-4">
+          <div>
+            <label className="block text-xs text-amber-200/70 mb-1.5 font-semibold uppercase tracking-wider">{t('charges.frequency')}</label>
+            <select value={draft.frequency} onChange={(e) => setDraft({ ...draft, frequency: e.target.value as Frequency })} className="w-full bg-black/40 border border-white/10 rounded-xl px-3 py-3 focus:outline-none focus:border-amber-500/50 text-sm text-white font-medium appearance-none">
+              <option value="monthly" className="bg-zinc-900">{t('charges.monthly')}</option>
+              <option value="yearly" className="bg-zinc-900">{t('charges.yearly')}</option>
+              <option value="custom" className="bg-zinc-900">{t('charges.custom')}</option>
+            </select>
+          </div>
+          {draft.frequency !== 'monthly' && (
+            <div>
+              <label className="block text-xs text-amber-200/70 mb-1.5 font-semibold uppercase tracking-wider">{draft.frequency === 'yearly' ? t('charges.month') : t('charges.firstMonth')}</label>
+              <input type="month" value={draft.startMonth} onChange={(e) => setDraft({ ...draft, startMonth: e.target.value })} className="w-full bg-black/40 border border-white/10 rounded-xl px-3 py-3 focus:outline-none focus:border-amber-500/50 text-sm text-white font-medium" />
+            </div>
+          )}
+        </div>
+        {draft.frequency === 'custom' && (
+          <div className="flex items-center justify-between">
+            <label className="text-xs text-amber-200/70 font-semibold uppercase tracking-wider">{t('charges.everyLabel')}</label>
+            <input type="number" min="1" value={draft.everyMonths} onChange={(e) => setDraft({ ...draft, everyMonths: e.target.value })} className="w-20 bg-black/40 border border-white/10 rounded-xl px-3 py-2 text-right focus:outline-none focus:border-amber-500/50 text-sm font-medium" />
+          </div>
+        )}
+        <div className="flex space-x-3">
+          {editingId && (
+            <motion.button whileHover={{ scale: 1.02 }} whileTap={{ scale: 0.98 }} onClick={() => { setEditingId(null); setDraft(emptyDraft()); }} className="px-5 bg-white/5 border border-white/10 text-white/60 font-bold py-3.5 rounded-xl transition-all mt-2">
+              {t('common.cancel')}
+            </motion.button>
+          )}
+          <motion.button whileHover={{ scale: 1.02 }} whileTap={{ scale: 0.98 }} onClick={saveCharge} disabled={!accountId} className="flex-1 bg-white/10 hover:bg-amber-500/20 hover:text-amber-400 border border-white/10 hover:border-amber-500/30 text-white font-bold py-3.5 rounded-xl transition-all mt-2 disabled:opacity-30">
+            {editingId ? t('common.save') : t('charges.add')}
+          </motion.button>
+        </div>
+      </div>
+
+      <div className="space-y-3">
+        {charges.length === 0 ? (
+          <motion.p initial={{ opacity: 0 }} animate={{ opacity: 1 }} className="text-sm text-white/40 text-center py-8 bg-black/20 rounded-2xl border border-white/5 font-medium">{t('charges.none')}</motion.p>
+        ) : (
+          <AnimatePresence>
+            {charges.map((charge: Charge) => (
+              <motion.div layout key={charge.id} initial={{ opacity: 0, x: -20, scale: 0.95 }} animate={{ opacity: 1, x: 0, scale: 1 }} exit={{ opacity: 0, scale: 0.9, transition: { duration: 0.2 } }} className={`bg-black/40 p-4 rounded-2xl flex justify-between items-center border transition-colors group ${editingId === charge.id ? 'border-amber-500/40' : 'border-white/5 hover:border-amber-500/20'}`}>
+                <div>
+                  <div className="font-semibold text-white/90 text-sm">{charge.name}</div>
+                  <div className="text-xs text-white/40 mt-1.5 font-medium">
+                    {t('charges.onDay', { day: charge.day })} • {describeFrequency(charge)} • {accounts.find((a: Item) => a.id === charge.accountId)?.name || '?'}
+                  </div>
+                </div>
+                <div className="flex items-center space-x-3">
+                  <span className="font-black text-lg">{formatMoney(charge.amount, currencyOf(charge.accountId))}</span>
+                  <motion.button whileHover={{ scale: 1.2 }} whileTap={{ scale: 0.9 }} onClick={() => editCharge(charge)} className="text-white/30 hover:text-amber-400 p-1 transition-colors"><Pencil size={18} /></motion.button>
+                  <motion.button whileHover={{ scale: 1.2 }} whileTap={{ scale: 0.9 }} onClick={() => removeCharge(charge.id)} className="text-white/30 hover:text-red-400 p-1 transition-colors"><Trash2 size={18} /></motion.button>
+                </div>
+              </motion.div>
+            ))}
+          </AnimatePresence>
+        )}
+      </div>
+    </GlassCard>
+  );
+}
+
+// Rates are the value of one unit of each currency in the base currency. Emptying a rate removes it.
+function RatesManager({ exchange, setExchange, currencies }: { exchange: Exchange, setExchange: (e: Exchange) => void, currencies: string[] }) {
+  const [added, setAdded] = useState<string[]>([]);
+  const [error, setError] = useState('');
+  const missing = missingRates(exchange, currencies);
+  const listed = [...new Set([...currencies, ...Object.keys(exchange.rates), ...added])].filter(c => c !== exchange.base).sort();
+
+  const setRate = (currency: string, value: string) => {
+    const { [currency]: _, ...rates } = exchange.rates;
+    const rate = parseFloat(value.replace(',', '.'));
+    setExchange({ ...exchange, rates: rate > 0 ? { ...rates, [currency]: rate } : rates, updatedAt: new Date().toISOString() });
+  };
+
+  const importFile = async (file: File | undefined) => {
+    if (!file) return;
+    const result = parseRates(await file.text(), exchange);
+    if (result.ok === false) {
+      setError(result.error);
+    } else {
+      setError('');
+      setExchange(result.exchange);
+    }
+  };
+
+  return (
+    <GlassCard delay={0.12}>
+      <div className="flex items-center justify-between mb-6">
+        <div className="flex items-center space-x-3">
+          <div className="p-2.5 bg-amber-500/20 text-amber-400 rounded-xl"><Coins size={20} /></div>
+          <h2 className="text-xl font-bold">{t('rates.title')}</h2>
+        </div>
+        {exchange.updatedAt && <div className="text-xs font-medium text-white/40">{t('rates.updated', { date: formatDate(exchange.updatedAt) })}</div>}
+      </div>
+
+      <div className="flex items-center justify-between mb-5">
+        <label className="text-xs text-amber-200/70 font-semibold uppercase tracking-wider">{t('rates.base')}</label>
+        <CurrencySelect value={exchange.base} onChange={(base) => setExchange(rebase(exchange, base))} className="px-3" />
+      </div>
+
+      {missing.length > 0 && (
+        <div className="mb-4 text-xs font-bold text-red-400 flex items-start">
+          <AlertCircle size={14} className="mr-1.5 mt-0.5 shrink-0" />
+          <span>{t('rates.missing', { currencies: missing.join(', ') })}</span>
+        </div>
+      )}
+
+      <div className="space-y-2">
+        {listed.map(currency => (
+          <div key={currency} className="flex items-center justify-between text-sm font-medium">
+            <span className={missing.includes(currency) ? 'text-red-400' : 'text-white/70'}>1 {currency} =</span>
+            <div className="flex items-center space-x-2">
+              <input key={`${currency}-${exchange.rates[currency]}`} type="text" inputMode="decimal" defaultValue={exchange.rates[currency] ?? ''} onBlur={(e) => setRate(currency, e.target.value)} onKeyDown={(e) => e.key === 'Enter' && e.currentTarget.blur()} placeholder="?" className="w-24 bg-black/40 border border-white/10 rounded-xl px-3 py-1.5 text-right focus:outline-none focus:border-amber-500/50 placeholder-white/30 text-sm font-bold" />
+              <span className="w-10 text-white/50">{exchange.base}</span>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-2 gap-4 mt-5">
+        <select value="" onChange={(e) => setAdded([...added, e.target.value])} className="bg-white/10 border border-white/10 rounded-xl px-3 py-3 focus:outline-none focus:border-amber-500/50 text-sm text-white font-bold appearance-none text-center">
+          <option value="" className="bg-zinc-900">{t('rates.addCurrency')}</option>
+          {CURRENCIES.filter(c => c !== exchange.base && !listed.includes(c)).map(c => <option key={c} value={c} className="bg-zinc-900">{c}</option>)}
+        </select>
+        <label className="cursor-pointer bg-white/10 hover:bg-amber-500/20 hover:text-amber-400 border border-white/10 hover:border-amber-500/30 text-white font-bold py-3 rounded-xl transition-all flex items-center justify-center space-x-2 text-sm">
+          <Upload size={16} /><span>{t('common.import')}</span>
+          <input type="file" accept=".json,.csv,.txt,application/json,text/csv" className="hidden" onChange={(e) => { importFile(e.target.files?.[0]); e.target.value = ''; }} />
+        </label>
+      </div>
+      {error && <div className="mt-3 text-xs font-bold text-red-400">{error}</div>}
+    </GlassCard>
+  );
+}
+
+const CHART_RANGES: { days: number, label: MessageKey }[] = [{ days: 30, label: 'chart.30d' }, { days: 90, label: 'chart.3m' }, { days: 365, label: 'chart.1y' }, { days: 0, label: 'chart.all' }];
+
+type ChartPoint = { date: string, value: number };
+
+// Plain SVG: x is proportional to time, so gaps between snapshots stay visible. markers are dates drawn as dashed lines.
+function LineChart({ points, currency, markers = [], height = 120 }: { points: ChartPoint[], currency: string, markers?: string[], height?: number }) {
+  const gradientId = `chart${React.useId().replace(/[^a-zA-Z0-9]/g, '')}`;
+  if (points.length < 2) {
+    return <p className="text-xs text-white/40 text-center py-4 font-medium">{t('chart.notEnough')}</p>;
+  }
+  const width = 300, pad = 8;
+  const times = points.map(p => fromDateInput(p.date).getTime());
+  const values = points.map(p => p.value);
+  const [t0, t1] = [times[0], times[times.length - 1]];
+  const [min, max] = [Math.min(...values), Math.max(...values)];
+  const x = (t: number) => t1 === t0 ? width : ((t - t0) / (t1 - t0)) * width;
+  const y = (v: number) => pad + ((max - v) / (max - min || 1)) * (height - 2 * pad);
+  const line = points.map((p, i) => `${i ? 'L' : 'M'}${x(times[i]).toFixed(1)},${y(p.value).toFixed(1)}`).join(' ');
+  const visibleMarkers = markers.map(m => fromDateInput(m).getTime()).filter(t => t >= t0 && t <= t1);
+
+  return (
+    <div>
+      <svg viewBox={`0 0 ${width} ${height}`} className="w-full" preserveAspectRatio="none" style={{ height }}>
+        <defs>
+          <linearGradient id={gradientId} x1="0" y1="0" x2="0" y2="1">
+            <stop offset="0%" stopColor="#fbbf24" stopOpacity="0.35" />
+            <stop offset="100%" stopColor="#fbbf24" stopOpacity="0" />
+          </linearGradient>
+        </defs>
+        {min < 0 && max > 0 && <line x1="0" x2={width} y1={y(0)} y2={y(0)} stroke="rgba(248,113,113,0.4)" strokeDasharray="2 3" />}
+        {visibleMarkers.map(t => <line key={t} x1={x(t)} x2={x(t)} y1="0" y2={height} stroke="rgba(255,255,255,0.2)" strokeDasharray="3 3" />)}
+        <path d={`${line} L${width},${height} L0,${height} Z`} fill={`url(#${gradientId})`} />
+        <path d={line} fill="none" stroke="#fbbf24" strokeWidth="2" vectorEffect="non-scaling-stroke" strokeLinejoin="round" />
+      </svg>
+      <div className="flex justify-between text-[10px] text-white/30 font-medium mt-1">
+        <span>{formatDate(points[0].date)}</span>
+        <span>{t('chart.range', { min: formatMoney(min, currency, { digits: 0 }), max: formatMoney(max, currency, { digits: 0 }) })}</span>
+        <span>{formatDate(points[points.length - 1].date)}</span>
+      </div>
+    </div>
+  );
+}
+
+function SnapshotCharts({ snapshots, pockets, paydays }: { snapshots: Snapshot[], pockets: Item[], paydays: string[] }) {
+  const [range, setRange] = useState(90);
+  const cutoff = range ? toDateInput(new Date(Date.now() - range * 24 * 60 * 60 * 1000)) : '';
+  const shown = snapshots.filter(s => s.date >= cutoff);
+  // Net worth is charted in the latest base currency only: older points in another base would not compare.
+  const latest = shown[shown.length - 1];
+  const sameCurrency = shown.filter(s => s.currency === latest?.currency);
+  const deltas = monthlyDeltas(snapshots).slice(-6).reverse();
+  const change = (values: number[]) => values.length > 1 ? values[values.length - 1] - values[0] : 0;
+
+  return (
+    <GlassCard>
+      <div className="flex items-center space-x-3 mb-5">
+        <div className="p-2.5 bg-amber-500/20 text-amber-400 rounded-xl"><TrendingUp size={20} /></div>
+        <h2 className="text-xl font-bold">{t('chart.title')}</h2>
+      </div>
+
+      <div className="flex space-x-2 mb-5">
+        {CHART_RANGES.map(r => (
+          <button key={r.days} onClick={() => setRange(r.days)} className={`flex-1 py-1.5 rounded-xl text-xs font-bold border transition-colors ${range === r.days ? 'bg-amber-500/20 text-amber-400 border-amber-500/30' : 'bg-white/5 text-white/50 border-white/10'}`}>{t(r.label)}</button>
+        ))}
+      </div>
+
+      <div className="flex justify-between items-end mb-2">
+        <span className="text-xs font-bold text-amber-500/80 uppercase tracking-wider">{t('chart.netWorth')}</span>
+        {latest && <span className="font-black text-lg text-amber-400">{formatMoney(latest.netWorth, latest.currency)}</span>}
+      </div>
+      <LineChart points={sameCurrency.map(s => ({ date: s.date, value: s.netWorth }))} currency={latest?.currency || ''} markers={paydays} />
+      {paydays.length > 0 && <div className="text-[10px] text-white/30 font-medium mt-1">{t('chart.paydays')}</div>}
+
+      {deltas.length > 0 && (
+        <div className="mt-6 space-y-1.5">
+          <h3 className="text-xs font-bold text-amber-500/80 uppercase tracking-wider border-b border-amber-500/20 pb-2 mb-3">{t('chart.monthly')}</h3>
+          {deltas.map(d => (
+            <div key={d.month} className="flex justify-between text-sm font-medium">
+              <span className="text-white/60">{formatMonth(d.month, 'short')}</span>
+              <span>
+                <span className="text-white/80">{formatMoney(d.netWorth, d.currency)}</span>
+                {d.delta !== null && <span className={`ml-3 font-bold ${d.delta < 0 ? 'text-red-400' : 'text-amber-400'}`}>{formatMoney(d.delta, d.currency, { signed: true })}</span>}
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="mt-6 space-y-5">
+        <h3 className="text-xs font-bold text-amber-500/80 uppercase tracking-wider border-b border-amber-500/20 pb-2">{t('dashboard.pockets')}</h3>
+        {pockets.filter(p => !p.archived).map(p => {
+          const points = shown.filter(s => p.id in s.balances).map(s => ({ date: s.date, value: s.balances[p.id] }));
+          const diff = change(points.map(pt => pt.value));
+          return (
+            <div key={p.id}>
+              <div className="flex justify-between text-sm font-medium mb-1">
+                <span className="text-white/80">{p.name}</span>
+                {diff !== 0 && <span className={`font-bold ${diff < 0 ? 'text-red-400' : 'text-amber-400'}`}>{formatMoney(diff, p.currency, { signed: true })}</span>}
+              </div>
+              <LineChart points={points} currency={p.currency} markers={paydays} height={50} />
+            </div>
+          );
+        })}
+      </div>
+    </GlassCard>
+  );
+}
+
+function HistoryScreen({ journal, snapshots, accounts, pockets, nameOf, currencyOf, onUndo, onRedo, onAcceptDrift, onClose }: { journal: JournalEntry[], snapshots: Snapshot[], accounts: Item[], pockets: Item[], nameOf: (id: string) => string, currencyOf: (id: string) => string, onUndo: (count?: number) => void, onRedo: (count?: number) => void, onAcceptDrift: (balances: BalanceChange[]) => void, onClose: () => void }) {
+  const { done, undone } = journalStacks(journal);
+  const paydays = done.filter(e => e.kind === 'paycheck').map(e => toDateInput(new Date(e.timestamp)));
+  const drift = journalDrift(journal, accounts, pockets);
+  const undoneIds = new Set(undone.map(e => e.id));
+  const entries = [...journal].reverse() as JournalEntry[];
+
+  return (
+    <motion.div initial={{ opacity: 0, scale: 0.95 }} animate={{ opacity: 1, scale: 1 }} exit={{ opacity: 0, scale: 1.05 }} className="max-w-md mx-auto p-4 space-y-6 pb-20 min-h-screen">
+      <div className="flex items-center justify-between pt-4 mb-2">
+        <h2 className="text-3xl font-extrabold bg-gradient-to-r from-amber-200 to-amber-500 text-transparent bg-clip-text">{t('history.title')}</h2>
+        <motion.button whileHover={{ scale: 1.1, rotate: 90 }} whileTap={{ scale: 0.9 }} onClick={onClose} className="p-2 bg-white/10 rounded-full hover:bg-white/20 text-white"><X size={20} /></motion.button>
+      </div>
+
+      <SnapshotCharts snapshots={snapshots} pockets={pockets} paydays={paydays} />
+
+      <GlassCard>
+        <div className="grid grid-cols-2 gap-4">
+          <motion.button whileHover={done.length ? { scale: 1.02 } : {}} whileTap={done.length ? { scale: 0.98 } : {}} onClick={() => onUndo()} disabled={!done.length} className={`font-bold py-3.5 rounded-xl border flex items-center justify-center space-x-2 transition-all ${done.length ? 'bg-white/10 hover:bg-amber-500/20 hover:text-amber-400 border-white/10 hover:border-amber-500/30 text-white' : 'bg-white/5 text-white/30 cursor-not-allowed border-white/10'}`}>
+            <Undo2 size={18} /><span>{t('history.undo', { count: done.length })}</span>
+          </motion.button>
+          <motion.button whileHover={undone.length ? { scale: 1.02 } : {}} whileTap={undone.length ? { scale: 0.98 } : {}} onClick={() => onRedo()} disabled={!undone.length} className={`font-bold py-3.5 rounded-xl border flex items-center justify-center space-x-2 transition-all ${undone.length ? 'bg-white/10 hover:bg-amber-500/20 hover:text-amber-400 border-white/10 hover:border-amber-500/30 text-white' : 'bg-white/5 text-white/30 cursor-not-allowed border-white/10'}`}>
+            <Redo2 size={18} /><span>{t('history.redo', { count: undone.length })}</span>
+          </motion.button>
+        </div>
+
+        <div className="border-t border-white/10 mt-5 pt-4 flex justify-between items-center">
+          <span className="font-semibold text-sm text-white/90">{t('history.check')}</span>
+          {drift.length > 0 ? (
+            <span className="text-red-400 font-bold flex items-center text-sm bg-red-400/10 px-3 py-1 rounded-full"><AlertCircle size={16} className="mr-1.5"/> {t('history.drifts', { count: drift.length })}</span>
+          ) : (
+            <span className="text-amber-400 font-bold flex items-center text-sm bg-amber-400/10 px-3 py-1 rounded-full"><CheckCircle2 size={16} className="mr-1.5"/> {t('history.consistent')}</span>
+          )}
+        </div>
+        {drift.length > 0 && (
+          <div className="mt-4 space-y-2">
+            {drift.map(c => (
+              <div key={`${c.collection}-${c.itemId}`} className="flex justify-between text-xs text-white/60 font-medium">
+                <span>{c.name}</span>
+                <span>{t('history.drift', { journal: formatMoney(c.before, currencyOf(c.itemId)), current: formatMoney(c.after, currencyOf(c.itemId)) })}</span>
+              </div>
+            ))}
+            <motion.button whileHover={{ scale: 1.02 }} whileTap={{ scale: 0.98 }} onClick={() => onAcceptDrift(drift)} className="w-full bg-white/10 hover:bg-amber-500/20 hover:text-amber-400 border border-white/10 hover:border-amber-500/30 text-white font-bold py-3 rounded-xl transition-all mt-2 text-sm">
+              {t('history.acceptDrift')}
+            </motion.button>
+          </div>
         )}
+      </GlassCard>
+
+      <div className="space-y-3">
+        {entries.length === 0 ? (
+          <motion.p initial={{ opacity: 0 }} animate={{ opacity: 1 }} className="text-sm text-white/40 text-center py-8 bg-black/20 rounded-2xl border border-white/5 font-medium">{t('history.empty')}</motion.p>
+        ) : entries.map((entry, index) => {
+          const isUndone = undoneIds.has(entry.id);
+          const stackDepth = done.length - done.findIndex(e => e.id === entry.id);
+          return (
+            <motion.div key={entry.id} initial={{ opacity: 0, x: -20 }} animate={{ opacity: 1, x: 0 }} transition={{ delay: Math.min(index, 10) * 0.03 }} className={`bg-black/40 p-4 rounded-2xl border border-white/5 ${isUndone ? 'opacity-40' : ''}`}>
+              <div className="flex justify-between items-start">
+                <div>
+                  <div className={`font-semibold text-sm text-white/90 ${isUndone ? 'line-through' : ''}`}>{entry.label}</div>
+                  <div className="text-xs text-white/40 mt-1 font-medium">{journalKindLabel(entry.kind)} • {formatDateTime(entry.timestamp)}</div>
+                </div>
+                {stackDepth <= done.length && (
+                  <motion.button whileHover={{ scale: 1.2, rotate: -15 }} whileTap={{ scale: 0.9 }} onClick={() => onUndo(stackDepth)} title={t('history.undoTo')} className="text-white/30 hover:text-amber-400 p-1 transition-colors"><Undo2 size={18} /></motion.button>
+                )}
+              </div>
+              {(entry.balances.length > 0 || entry.debts.length > 0 || !!entry.transactions?.length) && (
+                <div className="mt-3 space-y-1">
+                  {entry.balances.map(c => (
+                    <div key={`${c.collection}-${c.itemId}`} className="flex justify-between text-xs text-white/50 font-medium">
+                      <span>{c.name}</span>
+                      <span>{formatMoney(c.before, currencyOf(c.itemId))} → <span className={c.after >= c.before ? 'text-amber-400' : 'text-red-400'}>{formatMoney(c.after, currencyOf(c.itemId))}</span></span>
+                    </div>
+                  ))}
+                  {entry.transactions && entry.transactions.length > 0 && (
+                    <div className="flex justify-between text-xs text-white/50 font-medium">
+                      <span>{t('history.transactions')}</span>
+                      <span>{entry.transactions.filter(c => c.after).length - entry.transactions.filter(c => c.before).length > 0 ? '+' : ''}{entry.transactions.filter(c => c.after).length - entry.transactions.filter(c => c.before).length}</span>
+                    </div>
+                  )}
+                  {entry.debts.map((c, i) => {
+                    const debt = (c.after || c.before)!;
+                    return (
+                      <div key={`${debt.id}-${i}`} className="flex justify-between text-xs text-white/50 font-medium">
+                        <span>{nameOf(debt.toFund)} ← {nameOf(debt.borrowFrom)}</span>
+                        {c.before && c.after ? (
+                          <span>{formatMoney(c.before.remaining, currencyOf(debt.borrowFrom))} → {formatMoney(c.after.remaining, currencyOf(debt.borrowFrom))}</span>
+                        ) : (
+                          <span>{c.after ? '+' : '-'}{formatMoney(debt.remaining, currencyOf(debt.borrowFrom))}</span>
+                        )}
+                      </div>
+                    );
+                  })}
+                </div>
+              )}
+            </motion.div>
+          );
+        })}
+      </div>
+    </motion.div>
+  );
+}
+
+const downloadFile = (filename: string, content: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type: 'application/json' }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+const DIFF_STYLES = { added: 'text-amber-400', removed: 'text-red-400', changed: 'text-white/70' };
+const DIFF_SIGNS = { added: '+', removed: '−', changed: '~' };
+
+// With no current state (unreadable storage) the import can only replace, and there is nothing to diff against.
+function BackupManager({ state, onReplace, persisted = null }: { state: StoreState | null, onReplace: (s: StoreState) => void, persisted?: boolean | null }) {
+  const [incoming, setIncoming] = useState<StoreState | null>(null);
+  const [errors, setErrors] = useState<string[]>([]);
+  const diff: DiffLine[] = incoming && state ? diffStates(state, incoming) : [];
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    const result = parseDocument(await file.text());
+    if (result.ok === false) {
+      setErrors(result.errors);
+      setIncoming(null);
+    } else {
+      setErrors([]);
+      setIncoming(result.state);
+    }
+  };
+
+  const apply = (next: StoreState) => {
+    onReplace(next);
+    setIncoming(null);
+  };
+
+  return (
+    <GlassCard delay={0.25}>
+      <div className="flex items-center space-x-3 mb-6">
+        <div className="p-2.5 bg-amber-500/20 text-amber-400 rounded-xl"><Download size={20} /></div>
+        <h2 className="text-xl font-bold">{t('backup.title')}</h2>
+      </div>
+
+      <div className="grid grid-cols-2 gap-4">
+        <motion.button whileHover={state ? { scale: 1.02 } : {}} whileTap={state ? { scale: 0.98 } : {}} disabled={!state} onClick={() => state && downloadFile(`accountant-${toDateInput(new Date())}.json`, exportDocument(state))} className={`font-bold py-3.5 rounded-xl border flex items-center justify-center space-x-2 transition-all ${state ? 'bg-white/10 hover:bg-amber-500/20 hover:text-amber-400 border-white/10 hover:border-amber-500/30 text-white' : 'bg-white/5 text-white/30 cursor-not-allowed border-white/10'}`}>
+          <Download size={18} /><span>{t('backup.export')}</span>
+        </motion.button>
+        <label className="cursor-pointer bg-white/10 hover:bg-amber-500/20 hover:text-amber-400 border border-white/10 hover:border-amber-500/30 text-white font-bold py-3.5 rounded-xl transition-all flex items-center justify-center space-x-2">
+          <Upload size={18} /><span>{t('common.import')}</span>
+          <input type="file" accept="application/json,.json" className="hidden" onChange={(e) => { handleFile(e.target.files?.[0]); e.target.value = ''; }} />
+        </label>
       </div>
+
+      {persisted === false && (
+        <p className="mt-4 text-xs text-amber-400/80 font-medium flex items-start">
+          <AlertCircle size={14} className="mr-1.5 mt-0.5 shrink-0" />
+          <span>{t('backup.notPersisted')}</span>
+        </p>
+      )}
+
+      {errors.length > 0 && (
+        <div className="mt-5 bg-red-500/10 border border-red-500/30 rounded-2xl p-4 space-y-1">
+          {errors.slice(0, 10).map((error, i) => <div key={i} className="text-xs text-red-400 font-medium">{error}</div>)}
+          {errors.length > 10 && <div className="text-xs text-red-400/60 font-medium">{t('backup.moreErrors', { count: errors.length - 10 })}</div>}
+        </div>
+      )}
+
+      <AnimatePresence>
+        {incoming && (
+          <motion.div initial={{ opacity: 0, y: 20 }} animate={{ opacity: 1, y: 0 }} exit={{ opacity: 0 }} className="mt-5 bg-white/5 p-5 rounded-3xl border border-white/5 space-y-4">
+            <h3 className="text-xs font-bold text-amber-500/80 uppercase tracking-wider border-b border-amber-500/20 pb-2">{t('backup.preview')}</h3>
+            {state ? (
+              diff.length === 0 ? (
+                <p className="text-sm text-white/40 text-center font-medium">{t('backup.identical')}</p>
+              ) : (
+                <div className="space-y-1.5 max-h-64 overflow-y-auto">
+                  {diff.map((line, i) => (
+                    <div key={i} className={`flex text-xs font-medium ${DIFF_STYLES[line.kind]}`}>
+                      <span className="w-4">{DIFF_SIGNS[line.kind]}</span>
+                      <span className="text-white/40 w-20 shrink-0">{line.section}</span>
+                      <span>{line.label}</span>
+                    </div>
+                  ))}
+                </div>
+              )
+            ) : (
+              <p className="text-sm text-white/60 font-medium">{t('backup.summary', { accounts: incoming.accounts.length, pockets: incoming.pockets.length, debts: incoming.debts.length, entries: incoming.journal.length })}</p>
+            )}
+            <div className="flex space-x-3">
+              <motion.button whileHover={{ scale: 1.02 }} whileTap={{ scale: 0.98 }} onClick={() => setIncoming(null)} className="px-4 bg-white/5 border border-white/10 text-white/60 font-bold py-3 rounded-xl text-sm">{t('common.cancel')}</motion.button>
+              {state && (
+                <motion.button whileHover={{ scale: 1.02 }} whileTap={{ scale: 0.98 }} onClick={() => apply(mergeStates(state, incoming))} className="flex-1 bg-white/10 hover:bg-amber-500/20 hover:text-amber-400 border border-white/10 hover:border-amber-500/30 text-white font-bold py-3 rounded-xl transition-all text-sm">{t('backup.merge')}</motion.button>
+              )}
+              <motion.button whileHover={{ scale: 1.02 }} whileTap={{ scale: 0.98 }} onClick={() => apply(incoming)} className="flex-1 bg-gradient-to-r from-amber-400 to-amber-600 text-black font-bold py-3 rounded-xl text-sm">{t('backup.replace')}</motion.button>
+            </div>
+          </motion.div>
+        )}
+      </AnimatePresence>
     </GlassCard>
   );
 }
+
+// Starting over from the lock or error screens gives an empty profile in the same locale.
+const blankState = () => buildFromTemplate('blank', { currency: 'EUR', payday: 1 });
+
+function StorageErrorScreen({ switcher, errors, raw, onResolve }: { switcher: React.ReactNode, errors: string[], raw: string | null, onResolve: (s: StoreState) => void }) {
+  const [confirmReset, setConfirmReset] = useState(false);
+
+  return (
+    <div className="max-w-md mx-auto p-4 space-y-6 pb-20 min-h-screen">
+      <div className="pt-4 mb-2">
+        <h2 className="text-3xl font-extrabold bg-gradient-to-r from-red-300 to-red-500 text-transparent bg-clip-text">{t('storage.title')}</h2>
+        <p className="text-sm text-white/60 mt-2 font-medium">{t('storage.body')}</p>
+        {switcher}
+      </div>
+
+      <GlassCard>
+        <div className="space-y-1">
+          {errors.slice(0, 10).map((error, i) => <div key={i} className="text-xs text-red-400 font-medium">{error}</div>)}
+          {errors.length > 10 && <div className="text-xs text-red-400/60 font-medium">{t('backup.moreErrors', { count: errors.length - 10 })}</div>}
+        </div>
+        {raw && (
+          <motion.button whileHover={{ scale: 1.02 }} whileTap={{ scale: 0.98 }} onClick={() => downloadFile(`accountant-raw-${toDateInput(new Date())}.json`, raw)} className="w-full mt-5 bg-white/10 hover:bg-amber-500/20 hover:text-amber-400 border border-white/10 hover:border-amber-500/30 text-white font-bold py-3.5 rounded-xl transition-all flex items-center justify-center space-x-2">
+            <Download size={18} /><span>{t('storage.downloadRaw')}</span>
+          </motion.button>
+        )}
+      </GlassCard>
+
+      <BackupManager state={null} onReplace={onResolve} />
+
+      <GlassCard>
+        {confirmReset ? (
+          <div className="space-y-4">
+            <p className="text-sm text-red-400 font-semibold">{t('storage.confirmReset')}</p>
+            <div className="flex space-x-3">
+              <motion.button whileTap={{ scale: 0.98 }} onClick={() => setConfirmReset(false)} className="flex-1 bg-white/5 border border-white/10 text-white/60 font-bold py-3 rounded-xl text-sm">{t('common.cancel')}</motion.button>
+              <motion.button whileTap={{ scale: 0.98 }} onClick={() => onResolve(blankState())} className="flex-1 bg-red-500/20 border border-red-500/30 text-red-400 font-bold py-3 rounded-xl text-sm">{t('storage.reset')}</motion.button>
+            </div>
+          </div>
+        ) : (
+          <motion.button whileHover={{ scale: 1.02 }} whileTap={{ scale: 0.98 }} onClick={() => setConfirmReset(true)} className="w-full bg-white/5 border border-white/10 text-white/60 hover:text-red-400 hover:border-red-500/30 font-bold py-3.5 rounded-xl transition-all">
+            {t('storage.startOver')}
+          </motion.button>
+        )}
+      </GlassCard>
+    </div>
+  );
+}
+
+const PIN_INPUT = "w-full bg-black/40 border border-white/10 rounded-xl px-4 py-3 focus:outline-none focus:border-amber-500/50 focus:ring-1 focus:ring-amber-500/50 placeholder-white/30 text-sm font-medium transition-all";
+
+function LockScreen({ switcher, onUnlock, onForget }: { switcher: React.ReactNode, onUnlock: (pin: string) => Promise<boolean>, onForget: (s: StoreState) => void }) {
+  const [pin, setPin] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [wrong, setWrong] = useState(false);
+  const [forgotten, setForgotten] = useState(false);
+  const [confirmReset, setConfirmReset] = useState(false);
+
+  const submit = async () => {
+    if (!pin || busy) return;
+    setBusy(true);
+    const ok = await onUnlock(pin);
+    setBusy(false);
+    if (!ok) {
+      setWrong(true);
+      setPin('');
+    }
+  };
+
+  return (
+    <div className="max-w-md mx-auto p-4 space-y-6 pb-20 min-h-screen">
+      <header className="text-center pt-16 pb-4">
+        <div className="inline-flex p-4 bg-amber-500/20 text-amber-400 rounded-2xl mb-4"><Lock size={28} /></div>
+        <h1 className="text-3xl font-extrabold tracking-tight bg-gradient-to-r from-amber-200 via-amber-400 to-amber-600 text-transparent bg-clip-text">{t('app.name')}</h1>
+        <p className="text-sm text-white/60 mt-2 font-medium">{t('lock.subtitle')}</p>
+        {switcher}
+      </header>
+
+      <GlassCard>
+        <div className="space-y-4">
+          <input type="password" autoFocus autoComplete="current-password" value={pin} onChange={(e) => { setPin(e.target.value); setWrong(false); }} onKeyDown={(e) => e.key === 'Enter' && submit()} placeholder={t('lock.placeholder')} className={PIN_INPUT} />
+          {wrong && <p className="text-xs text-red-400 font-semibold">{t('lock.wrong')}</p>}
+          <motion.button whileHover={{ scale: 1.02 }} whileTap={{ scale: 0.98 }} disabled={!pin || busy} onClick={submit} className={`w-full font-bold py-3.5 rounded-xl flex items-center justify-center space-x-2 ${pin && !busy ? 'bg-gradient-to-r from-amber-400 to-amber-600 text-black' : 'bg-white/5 text-white/30 cursor-not-allowed'}`}>
+            {busy ? <RefreshCw size={18} className="animate-spin" /> : <KeyRound size={18} />}<span>{t('lock.unlock')}</span>
+          </motion.button>
+        </div>
+      </GlassCard>
+
+      {forgotten ? (
+        <>
+          <div className="bg-red-500/10 border border-red-500/30 text-red-400 rounded-2xl p-4 text-sm font-semibold flex items-start">
+            <AlertCircle size={18} className="mr-2 mt-0.5 shrink-0" />
+            <span>{t('lock.forgotten')} {t('lock.forgottenReset')}</span>
+          </div>
+
+          <BackupManager state={null} onReplace={onForget} />
+
+          <GlassCard>
+            {confirmReset ? (
+              <div className="space-y-4">
+                <p className="text-sm text-red-400 font-semibold">{t('lock.confirmReset')}</p>
+                <div className="flex space-x-3">
+                  <motion.button whileTap={{ scale: 0.98 }} onClick={() => setConfirmReset(false)} className="flex-1 bg-white/5 border border-white/10 text-white/60 font-bold py-3 rounded-xl text-sm">{t('common.cancel')}</motion.button>
+                  <motion.button whileTap={{ scale: 0.98 }} onClick={() => onForget(blankState())} className="flex-1 bg-red-500/20 border border-red-500/30 text-red-400 font-bold py-3 rounded-xl text-sm">{t('storage.reset')}</motion.button>
+                </div>
+              </div>
+            ) : (
+              <motion.button whileHover={{ scale: 1.02 }} whileTap={{ scale: 0.98 }} onClick={() => setConfirmReset(true)} className="w-full bg-white/5 border border-white/10 text-white/60 hover:text-red-400 hover:border-red-500/30 font-bold py-3.5 rounded-xl transition-all">
+                {t('storage.startOver')}
+              </motion.button>
+            )}
+          </GlassCard>
+        </>
+      ) : (
+        <button onClick={() => setForgotten(true)} className="w-full text-xs text-white/40 hover:text-amber-400 font-semibold transition-colors">{t('lock.forgot')}</button>
+      )}
+    </div>
+  );
+}
+
+// Setting a PIN encrypts the stored data; changing or removing it asks for the current one first.
+function SecurityManager({ lockAfter, onSetPin, onRemovePin, onDelay, onLock }: { lockAfter: number | null, onSetPin: (pin: string, delay: number, current?: string) => Promise<string | null>, onRemovePin: (current: string) => Promise<string | null>, onDelay: (delay: number) => void, onLock: () => void }) {
+  const [mode, setMode] = useState<'idle' | 'set' | 'remove'>('idle');
+  const [current, setCurrent] = useState('');
+  const [pin, setPin] = useState('');
+  const [confirm, setConfirm] = useState('');
+  const [delay, setDelay] = useState(lockAfter ?? 5);
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+  const enabled = lockAfter !== null;
+
+  const reset = () => {
+    setMode('idle');
+    setCurrent('');
+    setPin('');
+    setConfirm('');
+    setError(null);
+  };
+
+  const run = async (task: () => Promise<string | null>) => {
+    setBusy(true);
+    const failure = await task();
+    setBusy(false);
+    if (failure) setError(failure);
+    else reset();
+  };
+
+  const submit = () => {
+    if (mode === 'remove') return run(() => onRemovePin(current));
+    if (pin.length < MIN_PIN_LENGTH) return setError(t('lock.tooShort', { count: MIN_PIN_LENGTH }));
+    if (pin !== confirm) return setError(t('lock.mismatch'));
+    run(() => onSetPin(pin, delay, enabled ? current : undefined));
+  };
+
+  const delaySelect = (value: number, onChange: (v: number) => void) => (
+    <select value={value} onChange={(e) => onChange(parseInt(e.target.value))} className="bg-black/40 border border-white/10 rounded-xl px-3 py-2 focus:outline-none focus:border-amber-500/50 text-xs text-white font-semibold appearance-none">
+      {LOCK_DELAYS.map(d => <option key={d} value={d} className="bg-zinc-900">{d < 60 ? `${d} min` : `${d / 60} h`}</option>)}
+    </select>
+  );
+
+  return (
+    <GlassCard delay={0.3}>
+      <div className="flex items-center space-x-3 mb-6">
+        <div className="p-2.5 bg-amber-500/20 text-amber-400 rounded-xl"><Lock size={20} /></div>
+        <h2 className="text-xl font-bold">{t('lock.title')}</h2>
+      </div>
+
+      {enabled ? (
+        <div className="space-y-4">
+          <div className="flex items-center justify-between text-sm font-medium">
+            <span className="text-white/60">{t('lock.after')}</span>
+            {delaySelect(lockAfter, onDelay)}
+          </div>
+          {mode === 'idle' && (
+            <div className="grid grid-cols-3 gap-3">
+              <motion.button whileHover={{ scale: 1.02 }} whileTap={{ scale: 0.98 }} onClick={onLock} className="bg-white/10 hover:bg-amber-500/20 hover:text-amber-400 border border-white/10 hover:border-amber-500/30 text-white font-bold py-3 rounded-xl transition-all text-sm">{t('lock.lock')}</motion.button>
+              <motion.button whileHover={{ scale: 1.02 }} whileTap={{ scale: 0.98 }} onClick={() => setMode('set')} className="bg-white/10 hover:bg-amber-500/20 hover:text-amber-400 border border-white/10 hover:border-amber-500/30 text-white font-bold py-3 rounded-xl transition-all text-sm">{t('lock.change')}</motion.button>
+              <motion.button whileHover={{ scale: 1.02 }} whileTap={{ scale: 0.98 }} onClick={() => setMode('remove')} className="bg-white/5 border border-white/10 text-white/60 hover:text-red-400 hover:border-red-500/30 font-bold py-3 rounded-xl transition-all text-sm">{t('lock.remove')}</motion.button>
+            </div>
+          )}
+        </div>
+      ) : mode === 'idle' && (
+        <div className="space-y-4">
+          <p className="text-sm text-white/60 font-medium">{t('lock.intro')}</p>
+          <motion.button whileHover={{ scale: 1.02 }} whileTap={{ scale: 0.98 }} onClick={() => setMode('set')} className="w-full bg-white/10 hover:bg-amber-500/20 hover:text-amber-400 border border-white/10 hover:border-amber-500/30 text-white font-bold py-3.5 rounded-xl transition-all flex items-center justify-center space-x-2">
+            <KeyRound size={18} /><span>{t('lock.setPin')}</span>
+          </motion.button>
+        </div>
+      )}
+
+      <AnimatePresence>
+        {mode !== 'idle' && (
+          <motion.div initial={{ opacity: 0, y: 20 }} animate={{ opacity: 1, y: 0 }} exit={{ opacity: 0 }} className="mt-5 bg-white/5 p-5 rounded-3xl border border-white/5 space-y-3">
+            {enabled && <input type="password" autoComplete="current-password" value={current} onChange={(e) => { setCurrent(e.target.value); setError(null); }} placeholder={t('lock.current')} className={PIN_INPUT} />}
+            {mode === 'set' && (
+              <>
+                <input type="password" autoComplete="new-password" value={pin} onChange={(e) => { setPin(e.target.value); setError(null); }} placeholder={t('lock.new')} className={PIN_INPUT} />
+                <input type="password" autoComplete="new-password" value={confirm} onChange={(e) => { setConfirm(e.target.value); setError(null); }} onKeyDown={(e) => e.key === 'Enter' && submit()} placeholder={t('lock.confirm')} className={PIN_INPUT} />
+                {!enabled && (
+                  <div className="flex items-center justify-between text-sm font-medium">
+                    <span className="text-white/60">{t('lock.after')}</span>
+                    {delaySelect(delay, setDelay)}
+                  </div>
+                )}
+                <p className="text-xs text-white/40 font-medium">{t('lock.passphraseHint')}</p>
+              </>
+            )}
+            <div className="bg-amber-400/10 border border-amber-400/30 text-amber-400 rounded-2xl p-3 text-xs font-semibold flex items-start">
+              <AlertCircle size={14} className="mr-1.5 mt-0.5 shrink-0" />
+              <span>{mode === 'set' ? `${t('lock.forgotten')} ${t('lock.exportFirst')}` : t('lock.plaintext')}</span>
+            </div>
+            {error && <p className="text-xs text-red-400 font-semibold">{error}</p>}
+            <div className="flex space-x-3">
+              <motion.button whileHover={{ scale: 1.02 }} whileTap={{ scale: 0.98 }} onClick={reset} className="px-4 bg-white/5 border border-white/10 text-white/60 font-bold py-3 rounded-xl text-sm">{t('common.cancel')}</motion.button>
+              <motion.button whileHover={{ scale: 1.02 }} whileTap={{ scale: 0.98 }} disabled={busy} onClick={submit} className="flex-1 bg-gradient-to-r from-amber-400 to-amber-600 text-black font-bold py-3 rounded-xl text-sm flex items-center justify-center space-x-2">
+                {busy && <RefreshCw size={16} className="animate-spin" />}<span>{t(mode === 'remove' ? 'lock.removePin' : enabled ? 'lock.changePin' : 'lock.enable')}</span>
+              </motion.button>
+            </div>
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </GlassCard>
+  );
+}
+
+// Builds a profile from a template, or from a backup. The chosen language applies as soon as it is picked.
+// The first profile syncs as the default one: when another device already filled it on the server, it starts empty
+// and is filled by the first sync, since template records would come on top of the other device's.
+function Onboarding({ first, onCreate, onCancel }: { first: boolean, onCreate: (profile: Omit<Profile, 'id'>, state: StoreState) => void, onCancel: () => void }) {
+  const [locale, setLocaleChoice] = useState<Locale>(() => first ? browserLocale() : getLocale());
+  const [name, setName] = useState('');
+  const [template, setTemplate] = useState<TemplateKey>('solo');
+  const [currency, setCurrency] = useState('EUR');
+  const [payday, setPayday] = useState(1);
+  const [remote, setRemote] = useState<boolean | null>(first ? null : false);
+  useLocale(locale);
+
+  useEffect(() => {
+    if (first) hasRemoteRecords(DEFAULT_PROFILE).then(setRemote);
+  }, []);
+
+  const profile = { name: name.trim() || t('profiles.defaultName'), locale };
+
+  return (
+    <motion.div initial={{ opacity: 0, scale: 0.95 }} animate={{ opacity: 1, scale: 1 }} className="max-w-md mx-auto p-4 space-y-6 pb-20 min-h-screen">
+      {first ? (
+        <header className="text-center pt-12 pb-2">
+          <h1 className="text-4xl font-extrabold tracking-tight bg-gradient-to-r from-amber-200 via-amber-400 to-amber-600 text-transparent bg-clip-text drop-shadow-sm">{t('app.name')}</h1>
+          <p className="text-sm text-white/60 mt-3 font-medium">{t('onboarding.welcome')}</p>
+        </header>
+      ) : (
+        <div className="flex items-center justify-between pt-4 mb-2">
+          <h2 className="text-3xl font-extrabold bg-gradient-to-r from-amber-200 to-amber-500 text-transparent bg-clip-text">{t('onboarding.newProfile')}</h2>
+          <motion.button whileHover={{ scale: 1.1, rotate: 90 }} whileTap={{ scale: 0.9 }} onClick={onCancel} className="p-2 bg-white/10 rounded-full hover:bg-white/20 text-white"><X size={20} /></motion.button>
+        </div>
+      )}
+
+      <GlassCard>
+        <div className="space-y-4">
+          <div>
+            <label className="block text-xs text-amber-200/70 mb-1.5 font-semibold uppercase tracking-wider">{t('onboarding.name')}</label>
+            <input type="text" autoFocus={!first} value={name} onChange={(e) => setName(e.target.value)} placeholder={t('profiles.defaultName')} className="w-full bg-black/40 border border-white/10 rounded-xl px-4 py-3 focus:outline-none focus:border-amber-500/50 placeholder-white/30 text-sm font-medium" />
+          </div>
+          <div>
+            <label className="block text-xs text-amber-200/70 mb-1.5 font-semibold uppercase tracking-wider">{t('profiles.language')}</label>
+            <div className="flex space-x-2">
+              {(Object.keys(LOCALES) as Locale[]).map(l => (
+                <button key={l} onClick={() => setLocaleChoice(l)} className={`flex-1 py-2 rounded-xl text-sm font-bold border transition-colors ${locale === l ? 'bg-amber-500/20 text-amber-400 border-amber-500/30' : 'bg-white/5 text-white/50 border-white/10'}`}>{LOCALES[l].label}</button>
+              ))}
+            </div>
+          </div>
+          {!remote && <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className="block text-xs text-amber-200/70 mb-1.5 font-semibold uppercase tracking-wider">{t('onboarding.currency')}</label>
+              <CurrencySelect value={currency} onChange={setCurrency} className="w-full py-2.5 text-sm" />
+            </div>
+            <div>
+              <label className="block text-xs text-amber-200/70 mb-1.5 font-semibold uppercase tracking-wider">{t('charges.payday')}</label>
+              <input type="number" min="1" max="31" value={payday} onChange={(e) => setPayday(Math.min(31, Math.max(1, parseInt(e.target.value) || 1)))} className="w-full bg-black/40 border border-white/10 rounded-xl px-3 py-2.5 focus:outline-none focus:border-amber-500/50 text-sm font-bold" />
+            </div>
+          </div>}
+        </div>
+      </GlassCard>
+
+      {remote ? (
+        <div className="flex items-start space-x-3 p-4 rounded-2xl bg-amber-500/10 border border-amber-500/30 text-sm text-amber-200 font-medium">
+          <Cloud size={18} className="shrink-0 mt-0.5 text-amber-400" /><span>{t('onboarding.fromSync')}</span>
+        </div>
+      ) : <div className="space-y-3">
+        {(Object.keys(TEMPLATES) as TemplateKey[]).map(key => (
+          <button key={key} onClick={() => setTemplate(key)} className={`w-full text-left p-4 rounded-2xl border transition-colors ${template === key ? 'bg-amber-500/10 border-amber-500/40' : 'bg-black/40 border-white/5 hover:border-white/20'}`}>
+            <div className={`font-bold ${template === key ? 'text-amber-400' : 'text-white/90'}`}>{t(TEMPLATES[key].label)}</div>
+            <div className="text-xs text-white/50 font-medium mt-1">{t(TEMPLATES[key].description)}</div>
+          </button>
+        ))}
+      </div>}
+
+      <motion.button whileHover={{ scale: 1.02 }} whileTap={{ scale: 0.98 }} disabled={remote === null} onClick={() => onCreate(profile, remote ? emptyState() : buildFromTemplate(template, { currency, payday }))} className="w-full bg-gradient-to-r from-amber-400 to-amber-600 text-black font-extrabold py-5 rounded-2xl shadow-[0_0_20px_rgba(251,191,36,0.3)] flex items-center justify-center space-x-3 disabled:opacity-50">
+        {remote === null ? <RefreshCw size={24} className="animate-spin" /> : <CheckCircle2 size={24} />}<span className="text-lg">{t(remote ? 'onboarding.join' : 'onboarding.create')}</span>
+      </motion.button>
+
+      <p className="text-xs text-white/40 text-center font-medium">{t('onboarding.fromBackup')}</p>
+      <BackupManager state={null} onReplace={(state: StoreState) => onCreate(profile, state)} />
+    </motion.div>
+  );
+}
+
+// The open profile can be renamed and change language; the others can be deleted, with everything they hold.
+function ProfileManager({ profile, profiles, onUpdate, onDelete, onAdd }: { profile: Profile, profiles: Profile[], onUpdate: (patch: Partial<Profile>) => void, onDelete: (id: string) => void, onAdd: () => void }) {
+  const [deleting, setDeleting] = useState<string | null>(null);
+  const others = profiles.filter(p => p.id !== profile.id);
+
+  return (
+    <GlassCard delay={0.35}>
+      <div className="flex items-center space-x-3 mb-6">
+        <div className="p-2.5 bg-amber-500/20 text-amber-400 rounded-xl"><Users size={20} /></div>
+        <h2 className="text-xl font-bold">{t('profiles.title')}</h2>
+      </div>
+
+      <div className="space-y-3">
+        <input type="text" value={profile.name} onChange={(e) => onUpdate({ name: e.target.value })} className="w-full bg-black/40 border border-white/10 rounded-xl px-4 py-3 focus:outline-none focus:border-amber-500/50 text-sm font-semibold" />
+        <div className="flex items-center justify-between text-sm font-medium">
+          <span className="text-white/60">{t('profiles.language')}</span>
+          <select value={profile.locale} onChange={(e) => onUpdate({ locale: e.target.value as Locale })} className="bg-black/40 border border-white/10 rounded-xl px-3 py-2 focus:outline-none focus:border-amber-500/50 text-xs text-white font-semibold appearance-none">
+            {(Object.keys(LOCALES) as Locale[]).map(l => <option key={l} value={l} className="bg-zinc-900">{LOCALES[l].label}</option>)}
+          </select>
+        </div>
+      </div>
+
+      {others.length > 0 && (
+        <div className="mt-5 space-y-2">
+          {others.map(p => (
+            <div key={p.id} className="bg-black/40 p-3 rounded-2xl border border-white/5">
+              <div className="flex justify-between items-center text-sm font-medium">
+                <span className="text-white/80 truncate">{p.name}</span>
+                <motion.button whileTap={{ scale: 0.9 }} onClick={() => setDeleting(deleting === p.id ? null : p.id)} title={t('common.delete')} className="text-white/30 hover:text-red-400 p-1 transition-colors"><Trash2 size={16} /></motion.button>
+              </div>
+              {deleting === p.id && (
+                <div className="mt-3 space-y-3">
+                  <p className="text-xs text-red-400 font-semibold">{t('profiles.confirmDelete', { name: p.name })}</p>
+                  <div className="flex space-x-3">
+                    <motion.button whileTap={{ scale: 0.98 }} onClick={() => setDeleting(null)} className="flex-1 bg-white/5 border border-white/10 text-white/60 font-bold py-2.5 rounded-xl text-sm">{t('common.cancel')}</motion.button>
+                    <motion.button whileTap={{ scale: 0.98 }} onClick={() => { setDeleting(null); onDelete(p.id); }} className="flex-1 bg-red-500/20 border border-red-500/30 text-red-400 font-bold py-2.5 rounded-xl text-sm">{t('common.delete')}</motion.button>
+                  </div>
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      <motion.button whileHover={{ scale: 1.02 }} whileTap={{ scale: 0.98 }} onClick={onAdd} className="w-full mt-5 bg-white/10 hover:bg-amber-500/20 hover:text-amber-400 border border-white/10 hover:border-amber-500/30 text-white font-bold py-3.5 rounded-xl transition-all flex items-center justify-center space-x-2">
+        <UserPlus size={18} /><span>{t('profiles.add')}</span>
+      </motion.button>
+    </GlassCard>
+  );
+}
+
+const formatShortDate = (iso: string) => formatDate(iso, { day: '2-digit', month: '2-digit' });
+
+function ImportScreen({ accounts, pockets, charges, transactions, exchange, onApply, onClose }: { accounts: Item[], pockets: Item[], charges: Charge[], transactions: BankTransaction[], exchange: Exchange, onApply: (label: string, balances: BalanceChange[], changes: TransactionChange[]) => void, onClose: () => void }) {
+  const importable = accounts.filter((a: Item) => !a.archived);
+  const [accountId, setAccountId] = useState(importable.find((a: Item) => a.receivesPaycheck)?.id || importable[0]?.id || '');
+  const [file, setFile] = useState<{ name: string, text: string } | null>(null);
+  const [presetKey, setPresetKey] = useState('bnp');
+  const [mapping, setMapping] = useState<CsvMapping>(CSV_PRESETS.bnp.mapping);
+  const [assignments, setAssignments] = useState<Record<string, string>>({});
+  const [ending, setEnding] = useState('');
+
+  const isOfx = !!file && (/\.(ofx|qfx)$/i.test(file.name) || /<OFX>/i.test(file.text));
+  const parsed = file ? (isOfx ? parseOfx(file.text) : parseCsvStatement(file.text, mapping)) : null;
+  const account: Item | undefined = accounts.find((a: Item) => a.id === accountId);
+  const accountPockets = pockets.filter((p: Item) => p.accountId === accountId && !p.archived);
+  const known = new Set(transactions.map((t: BankTransaction) => t.id));
+  const ids = parsed ? transactionIds(parsed.lines, accountId) : [];
+
+  const rows = (parsed?.lines || []).map((line, i) => {
+    const id = ids[i];
+    const suggested = suggestPocket(line, transactions);
+    const pocketId = assignments[id] ?? (accountPockets.some((p: Item) => p.id === suggested) ? suggested : '');
+    return { id, line, duplicate: known.has(id), charge: matchCharge(line, accountId, charges), pocketId };
+  });
+  const fresh = rows.filter(r => !r.duplicate);
+  const unmatched = fresh.filter(r => !r.charge && !r.pocketId);
+  const importedSum = parseFloat(fresh.reduce((acc, r) => acc + r.line.amount, 0).toFixed(2));
+
+  // The statement is in the account's currency; lines assigned to a pocket in another currency are converted.
+  const money = (v: number, options = {}) => formatMoney(v, account?.currency || exchange.base, options);
+  const appBalance = account ? accountBalance(account, pockets, exchange) : 0;
+  const statementBalance = ending !== '' && !isNaN(parseFloat(ending)) ? parseFloat(ending) : parsed?.endingBalance ?? null;
+  const difference = statementBalance !== null ? parseFloat((statementBalance - appBalance).toFixed(2)) : null;
+  const canApply = !!account && (fresh.length > 0 || (!account.sumOfPockets && !!difference));
+
+  const loadFile = async (selected: File | undefined) => {
+    if (!selected) return;
+    const text = await selected.text();
+    setFile({ name: selected.name, text });
+    setAssignments({});
+    setEnding('');
+    // Picks the first preset that understands the file, otherwise keeps a custom mapping with the detected delimiter.
+    const preset = Object.entries(CSV_PRESETS).find(([, p]) => parseCsvStatement(text, p.mapping).lines.length > 0);
+    if (preset) {
+      setPresetKey(preset[0]);
+      setMapping(preset[1].mapping);
+    } else {
+      setPresetKey('custom');
+      setMapping({ ...mapping, delimiter: detectDelimiter(text) });
+    }
+  };
+
+  const updateMapping = (patch: Partial<CsvMapping>) => {
+    setPresetKey('custom');
+    setMapping({ ...mapping, ...patch });
+  };
+
+  const apply = () => {
+    if (!account) return;
+    const importedAt = new Date().toISOString();
+    const added: BankTransaction[] = fresh.map(r => ({
+      id: r.id, accountId, date: r.line.date, description: r.line.description, amount: r.line.amount, importedAt,
+      ...(r.pocketId ? { pocketId: r.pocketId } : {}),
+      ...(r.charge ? { chargeId: r.charge.id } : {}),
+    }));
+    // Each line moves one balance, as an adjustment would: the account's own, or for an account made of pockets the
+    // pocket it is assigned to. Elsewhere the pocket only labels the operation.
+    const balances: BalanceChange[] = [];
+    if (!account.sumOfPockets) {
+      const after = parseFloat((statementBalance ?? account.balance + importedSum).toFixed(2));
+      if (after !== account.balance) balances.push({ collection: 'accounts', itemId: account.id, name: account.name, before: account.balance, after });
+    } else {
+      accountPockets.forEach((p: Item) => {
+        const delta = convert(fresh.filter(r => r.pocketId === p.id).reduce((acc, r) => acc + r.line.amount, 0), account.currency, p.currency, exchange);
+        if (delta) balances.push({ collection: 'pockets', itemId: p.id, name: p.name, before: p.balance, after: parseFloat((p.balance + delta).toFixed(2)) });
+      });
+    }
+    onApply(t('import.label', { name: account.name, count: added.length }), balances, added.map(t => ({ before: null, after: t })));
+    onClose();
+  };
+
+  const selectClass = "w-full bg-black/40 border border-white/10 rounded-xl px-3 py-2.5 focus:outline-none focus:border-amber-500/50 text-sm text-white font-medium appearance-none";
+  const columnSelect = (field: 'date' | 'description' | 'amount' | 'fee' | 'balance', label: string, optional = false) => (
+    <div>
+      <label className="block text-xs text-amber-200/70 mb-1.5 font-semibold uppercase tracking-wider">{label}</label>
+      <select value={mapping[field]} onChange={(e) => updateMapping({ [field]: e.target.value })} className={selectClass}>
+        {optional && <option value="" className="bg-zinc-900">—</option>}
+        {!optional && !parsed?.headers.includes(mapping[field]) && <option value={mapping[field]} className="bg-zinc-900">{mapping[field] || '—'}</option>}
+        {parsed?.headers.map(h => <option key={h} value={h} className="bg-zinc-900">{h}</option>)}
+      </select>
+    </div>
+  );
+
+  return (
+    <motion.div initial={{ opacity: 0, scale: 0.95 }} animate={{ opacity: 1, scale: 1 }} exit={{ opacity: 0, scale: 1.05 }} className="max-w-md mx-auto p-4 space-y-6 pb-20 min-h-screen">
+      <div className="flex items-center justify-between pt-4 mb-2">
+        <h2 className="text-3xl font-extrabold bg-gradient-to-r from-amber-200 to-amber-500 text-transparent bg-clip-text">{t('import.title')}</h2>
+        <motion.button whileHover={{ scale: 1.1, rotate: 90 }} whileTap={{ scale: 0.9 }} onClick={onClose} className="p-2 bg-white/10 rounded-full hover:bg-white/20 text-white"><X size={20} /></motion.button>
+      </div>
+
+      <GlassCard>
+        <div className="space-y-5">
+          <div>
+            <label className="block text-xs text-amber-200/70 mb-1.5 font-semibold uppercase tracking-wider">{t('import.account')}</label>
+            <select value={accountId} onChange={(e) => { setAccountId(e.target.value); setAssignments({}); }} className={selectClass}>
+              {importable.map((a: Item) => <option key={a.id} value={a.id} className="bg-zinc-900">{a.name}</option>)}
+            </select>
+          </div>
+          <label className="cursor-pointer w-full bg-white/10 hover:bg-amber-500/20 hover:text-amber-400 border border-white/10 hover:border-amber-500/30 text-white font-bold py-3.5 rounded-xl transition-all flex items-center justify-center space-x-2">
+            <FileUp size={18} /><span className="truncate">{file ? file.name : t('import.chooseFile')}</span>
+            <input type="file" accept=".csv,.ofx,.qfx,text/csv" className="hidden" onChange={(e) => { loadFile(e.target.files?.[0]); e.target.value = ''; }} />
+          </label>
+
+          {file && !isOfx && (
+            <div className="bg-white/5 p-4 rounded-2xl border border-white/5 space-y-4">
+              <div>
+                <label className="block text-xs text-amber-200/70 mb-1.5 font-semibold uppercase tracking-wider">{t('import.format')}</label>
+                <select value={presetKey} onChange={(e) => { if (CSV_PRESETS[e.target.value]) { setPresetKey(e.target.value); setMapping(CSV_PRESETS[e.target.value].mapping); } }} className={selectClass}>
+                  {Object.entries(CSV_PRESETS).map(([key, p]) => <option key={key} value={key} className="bg-zinc-900">{p.label}</option>)}
+                  <option value="custom" className="bg-zinc-900">{t('import.custom')}</option>
+                </select>
+              </div>
+              <div className="grid grid-cols-3 gap-3">
+                <div>
+                  <label className="block text-xs text-amber-200/70 mb-1.5 font-semibold uppercase tracking-wider">{t('import.delimiter')}</label>
+                  <select value={mapping.delimiter} onChange={(e) => updateMapping({ delimiter: e.target.value })} className={selectClass}>
+                    <option value=";" className="bg-zinc-900">;</option>
+                    <option value="," className="bg-zinc-900">,</option>
+                    <option value={'\t'} className="bg-zinc-900">{t('import.tab')}</option>
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-xs text-amber-200/70 mb-1.5 font-semibold uppercase tracking-wider">{t('import.dates')}</label>
+                  <select value={mapping.dateFormat} onChange={(e) => updateMapping({ dateFormat: e.target.value as DateFormat })} className={selectClass}>
+                    <option value="DD/MM/YYYY" className="bg-zinc-900">{t('import.dmy')}</option>
+                    <option value="YYYY-MM-DD" className="bg-zinc-900">{t('import.ymd')}</option>
+                    <option value="MM/DD/YYYY" className="bg-zinc-900">{t('import.mdy')}</option>
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-xs text-amber-200/70 mb-1.5 font-semibold uppercase tracking-wider">{t('import.decimals')}</label>
+                  <select value={mapping.decimal} onChange={(e) => updateMapping({ decimal: e.target.value as ',' | '.' })} className={selectClass}>
+                    <option value="," className="bg-zinc-900">1 234,56</option>
+                    <option value="." className="bg-zinc-900">1,234.56</option>
+                  </select>
+                </div>
+              </div>
+              <div className="grid grid-cols-2 gap-3">
+                {columnSelect('date', t('import.date'))}
+                {columnSelect('amount', t('import.amount'))}
+                {columnSelect('description', t('import.description'))}
+                {columnSelect('fee', t('import.fee'), true)}
+                {columnSelect('balance', t('import.balance'), true)}
+              </div>
+            </div>
+          )}
+
+          {parsed && parsed.skipped > 0 && (
+            <div className="text-xs text-red-400 font-medium">{t('import.skipped', { count: parsed.skipped })}</div>
+          )}
+        </div>
+      </GlassCard>
+
+      {parsed && account && (
+        <GlassCard>
+          <div className="flex items-center space-x-3 mb-6">
+            <div className="p-2.5 bg-amber-500/20 text-amber-400 rounded-xl"><Landmark size={20} /></div>
+            <h2 className="text-xl font-bold">{t('import.reconcile')}</h2>
+          </div>
+          <div className="bg-white/5 rounded-2xl p-5 border border-white/10 space-y-4">
+            <div className="flex justify-between text-sm items-center">
+              <span className="text-white/70 font-medium">{t('import.statementBalance')}</span>
+              <input type="number" step="0.01" value={ending} onChange={(e) => setEnding(e.target.value)} placeholder={parsed.endingBalance !== null ? parsed.endingBalance.toFixed(2) : t('import.unknown')} className="w-28 bg-black/40 border border-white/10 rounded-xl px-3 py-1.5 text-right focus:outline-none focus:border-amber-500/50 placeholder-white/50 text-sm font-bold" />
+            </div>
+            <div className="flex justify-between text-sm items-center">
+              <span className="text-white/70 font-medium">{t('import.appBalance', { name: account.name })}</span>
+              <span className="font-bold text-lg">{money(appBalance)}</span>
+            </div>
+            <div className="flex justify-between text-sm items-center">
+              <span className="text-white/70 font-medium">{t('import.fresh', { count: fresh.length })}</span>
+              <span className={`font-bold ${importedSum < 0 ? 'text-red-400' : 'text-amber-400'}`}>{money(importedSum, { signed: true })}</span>
+            </div>
+            <div className="border-t border-white/10 pt-4 flex justify-between items-center">
+              <span className="font-semibold text-sm text-white/90">{t('import.difference')}</span>
+              {difference === null ? (
+                <span className="text-white/40 font-bold text-sm">{t('import.balanceUnknown')}</span>
+              ) : difference === 0 ? (
+                <span className="text-amber-400 font-bold flex items-center text-sm bg-amber-400/10 px-3 py-1 rounded-full"><CheckCircle2 size={16} className="mr-1.5"/> {t('import.reconciled')}</span>
+              ) : (
+                <span className="text-red-400 font-bold flex items-center text-sm bg-red-400/10 px-3 py-1 rounded-full"><AlertCircle size={16} className="mr-1.5"/> {money(difference, { signed: true })}</span>
+              )}
+            </div>
+            {unmatched.length > 0 && (
+              <div className="text-xs text-white/50 font-medium">{t('import.unmatched', { count: unmatched.length })}</div>
+            )}
+            {account.sumOfPockets && (
+              <div className="text-xs text-white/50 font-medium">{t('import.sumOfPockets', { name: account.name })}</div>
+            )}
+          </div>
+
+          <div className="space-y-2 mt-6 max-h-[28rem] overflow-y-auto">
+            {rows.length === 0 && (
+              <p className="text-sm text-white/40 text-center py-8 bg-black/20 rounded-2xl border border-white/5 font-medium">{t('import.none')}</p>
+            )}
+            {rows.map(r => (
+              <div key={r.id} className={`bg-black/40 p-3 rounded-2xl border border-white/5 ${r.duplicate ? 'opacity-40' : ''}`}>
+                <div className="flex justify-between items-start text-sm">
+                  <div className="min-w-0 mr-3">
+                    <div className="font-medium text-white/90 truncate">{r.line.description || '—'}</div>
+                    <div className="text-xs text-white/40 font-medium mt-0.5">
+                      {formatShortDate(r.line.date)}
+                      {r.duplicate && ` • ${t('import.duplicate')}`}
+                      {!r.duplicate && r.charge && <span className="text-amber-400/80"> • {t('import.charge', { name: r.charge.name })}</span>}
+                    </div>
+                  </div>
+                  <span className={`font-bold shrink-0 ${r.line.amount < 0 ? 'text-red-400' : 'text-amber-400'}`}>{money(r.line.amount, { signed: true })}</span>
+                </div>
+                {!r.duplicate && accountPockets.length > 0 && (
+                  <select value={r.pocketId} onChange={(e) => setAssignments({ ...assignments, [r.id]: e.target.value })} className="w-full mt-2 bg-black/40 border border-white/10 rounded-xl px-3 py-1.5 focus:outline-none focus:border-amber-500/50 text-xs text-white font-medium appearance-none">
+                    <option value="" className="bg-zinc-900">{t('import.noPocket')}</option>
+                    {accountPockets.map((p: Item) => <option key={p.id} value={p.id} className="bg-zinc-900">{p.name}</option>)}
+                  </select>
+                )}
+              </div>
+            ))}
+          </div>
+
+          <motion.button
+            whileHover={canApply ? { scale: 1.02 } : {}}
+            whileTap={canApply ? { scale: 0.98 } : {}}
+            onClick={apply}
+            disabled={!canApply}
+            className={`w-full mt-8 font-extrabold py-5 rounded-2xl shadow-lg transition-all flex items-center justify-center space-x-3 ${!canApply ? 'bg-white/5 text-white/30 cursor-not-allowed border border-white/10' : 'bg-gradient-to-r from-amber-400 to-amber-600 text-black shadow-[0_0_20px_rgba(251,191,36,0.3)]'}`}
+          >
+            <CheckCircle2 size={24} />
+            <span className="text-lg">{t('import.apply')}</span>
+          </motion.button>
+        </GlassCard>
+      )}
+    </motion.div>
+  );
+}
+
+const HORIZONS = [3, 6, 12, 24];
+
+// Outside the what-if mode, edits to the paycheck are saved as the expected paycheck; inside it they only live in this screen.
+function ForecastScreen({ accounts, pockets, charges, splitter, debts, exchange, payday, getVirtual, expectedPaycheck, setExpectedPaycheck, avgPaycheck, nameOf, onClose }: { accounts: Item[], pockets: Item[], charges: Charge[], splitter: Splitter, debts: Debt[], exchange: Exchange, payday: number, getVirtual: (id: string, balance: number) => number, expectedPaycheck: ExpectedPaycheck, setExpectedPaycheck: (expected: ExpectedPaycheck) => void, avgPaycheck: number | null, nameOf: (id: string) => string, onClose: () => void }) {
+  const [horizon, setHorizon] = useState(12);
+  const [whatIf, setWhatIf] = useState<ForecastAssumptions | null>(null);
+  const [open, setOpen] = useState<string | null>(null);
+
+  const saved: ForecastAssumptions = { income: expectedPaycheck.amount ?? avgPaycheck ?? 0, payday, overrides: expectedPaycheck.overrides, incomeChange: 0, skippedCharges: [] };
+  const assumptions = whatIf || saved;
+  const setAssumptions = (patch: Partial<ForecastAssumptions>) => {
+    if (whatIf) setWhatIf({ ...whatIf, ...patch });
+    else setExpectedPaycheck({ amount: patch.income ?? expectedPaycheck.amount, overrides: patch.overrides ?? expectedPaycheck.overrides });
+  };
+  const setOverride = (month: string, value: string) => {
+    const { [month]: _, ...overrides } = assumptions.overrides;
+    setAssumptions({ overrides: value === '' ? overrides : { ...overrides, [month]: parseFloat(value) || 0 } });
+  };
+
+  const visibleAccounts = accounts.filter((a: Item) => !a.archived);
+  const visiblePockets = pockets.filter((p: Item) => !p.archived);
+  const startBalances = Object.fromEntries([...accounts, ...pockets].map((i: Item) => [i.id, getVirtual(i.id, i.balance)]));
+  const months = forecast({ accounts, pockets, charges, splitter, debts, exchange, startBalances, assumptions, horizon });
+  const alert = firstAlert(months);
+  const mainAccount = accounts.find((a: Item) => a.receivesPaycheck && !a.archived);
+  // Paychecks, charges and totals are in the main account's currency; each item keeps its own.
+  const currency = mainAccount?.currency || exchange.base;
+  const money = (v: number, options = {}) => formatMoney(v, currency, options);
+
+  return (
+    <motion.div initial={{ opacity: 0, scale: 0.95 }} animate={{ opacity: 1, scale: 1 }} exit={{ opacity: 0, scale: 1.05 }} className="max-w-md mx-auto p-4 space-y-6 pb-20 min-h-screen">
+      <div className="flex items-center justify-between pt-4 mb-2">
+        <h2 className="text-3xl font-extrabold bg-gradient-to-r from-amber-200 to-amber-500 text-transparent bg-clip-text">{t('forecast.title')}</h2>
+        <motion.button whileHover={{ scale: 1.1, rotate: 90 }} whileTap={{ scale: 0.9 }} onClick={onClose} className="p-2 bg-white/10 rounded-full hover:bg-white/20 text-white"><X size={20} /></motion.button>
+      </div>
+
+      <GlassCard className={whatIf ? 'border-amber-400/60' : ''}>
+        <div className="flex items-center justify-between mb-5">
+          <div className="flex items-center space-x-3">
+            <div className="p-2.5 bg-amber-500/20 text-amber-400 rounded-xl"><Wallet size={20} /></div>
+            <h2 className="text-xl font-bold">{t('forecast.assumptions')}</h2>
+          </div>
+          <button onClick={() => setWhatIf(whatIf ? null : saved)} className={`text-xs font-bold px-3 py-1.5 rounded-full border transition-colors ${whatIf ? 'bg-amber-400 text-black border-amber-400' : 'text-white/60 border-white/10 hover:text-amber-400 hover:border-amber-500/30'}`}>
+            {whatIf ? t('forecast.leaveWhatIf') : t('forecast.whatIf')}
+          </button>
+        </div>
+        {whatIf && <p className="text-xs text-amber-400/80 font-medium mb-4">{t('forecast.simulation')}</p>}
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-3 gap-3">
+            <div className="col-span-2">
+              <label className="block text-xs text-amber-200/70 mb-1.5 font-semibold uppercase tracking-wider">{t('forecast.income', { symbol: currencySymbol(currency) })}</label>
+              <input type="number" value={assumptions.income || ''} onChange={(e) => setAssumptions({ income: parseFloat(e.target.value) || 0 })} placeholder={avgPaycheck !== null ? avgPaycheck.toFixed(2) : '0.00'} className="w-full bg-black/40 border border-white/10 rounded-xl px-3 py-2.5 focus:outline-none focus:border-amber-500/50 placeholder-white/30 text-sm font-bold" />
+            </div>
+            <div>
+              <label className="block text-xs text-amber-200/70 mb-1.5 font-semibold uppercase tracking-wider">{t('forecast.day')}</label>
+              <input type="number" min="1" max="31" value={assumptions.payday} disabled={!whatIf} onChange={(e) => setWhatIf({ ...whatIf!, payday: Math.min(31, Math.max(1, parseInt(e.target.value) || 1)) })} className="w-full bg-black/40 border border-white/10 rounded-xl px-3 py-2.5 focus:outline-none focus:border-amber-500/50 text-sm font-bold disabled:opacity-50" />
+            </div>
+          </div>
+          {expectedPaycheck.amount === null && !whatIf && avgPaycheck !== null && (
+            <p className="text-xs text-white/40 font-medium">{t('forecast.average')}</p>
+          )}
+
+          {whatIf && (
+            <>
+              <div>
+                <div className="flex justify-between text-xs font-semibold uppercase tracking-wider mb-1.5">
+                  <span className="text-amber-200/70">{t('forecast.incomeChange')}</span>
+                  <span className={whatIf.incomeChange < 0 ? 'text-red-400' : 'text-amber-400'}>{whatIf.incomeChange > 0 ? '+' : ''}{whatIf.incomeChange}%</span>
+                </div>
+                <input type="range" min="-100" max="50" step="5" value={whatIf.incomeChange} onChange={(e) => setWhatIf({ ...whatIf, incomeChange: parseInt(e.target.value) })} className="w-full" />
+              </div>
+              {charges.length > 0 && (
+                <div className="space-y-2">
+                  <div className="text-xs text-amber-200/70 font-semibold uppercase tracking-wider">{t('forecast.charges')}</div>
+                  {charges.map((c: Charge) => (
+                    <label key={c.id} className="flex items-center justify-between text-sm text-white/70 font-medium">
+                      <span className="flex items-center space-x-2">
+                        <input type="checkbox" checked={!whatIf.skippedCharges.includes(c.id)} onChange={(e) => setWhatIf({ ...whatIf, skippedCharges: e.target.checked ? whatIf.skippedCharges.filter(id => id !== c.id) : [...whatIf.skippedCharges, c.id] })} className="accent-amber-400" />
+                        <span>{c.name}</span>
+                      </span>
+                      <span className="text-white/40">{formatMoney(c.amount, accounts.find((a: Item) => a.id === c.accountId)?.currency || exchange.base)}</span>
+                    </label>
+                  ))}
+                </div>
+              )}
+            </>
+          )}
+
+          <div className="flex space-x-2">
+            {HORIZONS.map(h => (
+              <button key={h} onClick={() => setHorizon(h)} className={`flex-1 py-2 rounded-xl text-xs font-bold border transition-colors ${horizon === h ? 'bg-amber-500/20 text-amber-400 border-amber-500/30' : 'bg-white/5 text-white/50 border-white/10'}`}>{t('forecast.months', { count: h })}</button>
+            ))}
+          </div>
+        </div>
+      </GlassCard>
+
+      {!mainAccount ? (
+        <p className="text-sm text-white/40 text-center py-8 bg-black/20 rounded-2xl border border-white/5 font-medium">{t('forecast.noMainAccount')}</p>
+      ) : alert ? (
+        <div className="bg-red-500/10 border border-red-500/30 text-red-400 rounded-2xl p-4 text-sm font-semibold flex items-start">
+          <AlertCircle size={18} className="mr-2 mt-0.5 shrink-0" />
+          <span>
+            {t('forecast.firstRisk', { month: formatMonth(alert.month) })}
+            {alert.shortfall > 0 && ` ${t('forecast.shortfall', { name: mainAccount.name, amount: money(alert.shortfall) })}`}
+            {alert.negativePockets.length > 0 && ` ${t('forecast.negative', { names: alert.negativePockets.map(nameOf).join(', ') })}`}
+          </span>
+        </div>
+      ) : (
+        <div className="bg-amber-400/10 border border-amber-400/30 text-amber-400 rounded-2xl p-4 text-sm font-semibold flex items-center">
+          <CheckCircle2 size={18} className="mr-2 shrink-0" />
+          <span>{t('forecast.covered', { count: horizon })}</span>
+        </div>
+      )}
+
+      <div className="space-y-3">
+        {months.map((m: ForecastMonth) => {
+          const flagged = m === alert;
+          const pocketsTotal = visiblePockets.reduce((acc: number, p: Item) => acc + convert(m.balances[p.id] || 0, p.currency, currency, exchange), 0);
+          return (
+            <div key={m.month} className={`bg-black/40 p-4 rounded-2xl border ${flagged ? 'border-red-500/40' : 'border-white/5'}`}>
+              <button onClick={() => setOpen(open === m.month ? null : m.month)} className="w-full flex justify-between items-center text-left">
+                <div>
+                  <div className={`font-bold ${flagged ? 'text-red-400' : 'text-white/90'}`}>{formatMonth(m.month)}</div>
+                  <div className="text-xs text-white/40 font-medium mt-0.5">
+                    {m.income > 0 && <span className="text-amber-400/80">+{money(m.income, { digits: 0 })} </span>}
+                    {m.charges > 0 && <span>• {t('forecast.chargesAmount', { amount: money(m.charges, { digits: 0 }) })} </span>}
+                    {m.repayments > 0 && <span>• {t('forecast.debtsAmount', { amount: money(m.repayments, { digits: 0 }) })}</span>}
+                  </div>
+                </div>
+                <div className="text-right">
+                  <div className={`font-bold ${(m.balances[mainAccount?.id] || 0) < 0 || m.shortfall > 0 ? 'text-red-400' : 'text-white/90'}`}>{money(m.balances[mainAccount?.id] || 0)}</div>
+                  <div className="text-xs text-white/40 font-medium">{t('forecast.pockets', { amount: money(pocketsTotal) })}</div>
+                </div>
+              </button>
+              {open === m.month && (
+                <div className="pt-3 mt-3 border-t border-white/10 space-y-1.5">
+                  <div className="flex justify-between items-center text-xs text-white/60 font-medium pb-1">
+                    <span>{t('forecast.monthIncome')}</span>
+                    <input type="number" value={assumptions.overrides[m.month] ?? ''} onChange={(e) => setOverride(m.month, e.target.value)} placeholder={assumptions.income.toFixed(2)} className="w-24 bg-black/40 border border-white/10 rounded-lg px-2 py-1 text-right focus:outline-none focus:border-amber-500/50 placeholder-white/30 text-xs font-bold" />
+                  </div>
+                  {[...visibleAccounts, ...visiblePockets].map((i: Item) => (
+                    <div key={i.id} className="flex justify-between text-xs font-medium">
+                      <span className="text-white/50">{i.name}</span>
+                      <span className={(m.balances[i.id] || 0) < 0 ? 'text-red-400 font-bold' : 'text-white/80'}>{formatMoney(m.balances[i.id] || 0, i.currency)}</span>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </motion.div>
+  );
+}
+
+function SpendingScreen({ pockets, expenses, entries, onDelete, onClose }: { pockets: Item[], expenses: Expense[], entries: JournalEntry[], onDelete: (expense: Expense) => void, onClose: () => void }) {
+  const [month, setMonth] = useState(() => monthKey(new Date()));
+  const [open, setOpen] = useState<string | null>(null);
+  const shiftMonth = (delta: number) => {
+    const [year, m] = month.split('-').map(Number);
+    setMonth(monthKey(new Date(year, m - 1 + delta, 1)));
+  };
+
+  const reports = pockets
+    .map((pocket: Item) => ({ pocket, report: envelopeReport(pocket, month, entries, expenses) }))
+    .filter(({ pocket, report }) => report.spent > 0 || (!pocket.archived && report.allocated > 0));
+  const overBudget = reports.filter(({ report }) => report.overBudget);
+
+  return (
+    <motion.div initial={{ opacity: 0, scale: 0.95 }} animate={{ opacity: 1, scale: 1 }} exit={{ opacity: 0, scale: 1.05 }} className="max-w-md mx-auto p-4 space-y-6 pb-20 min-h-screen">
+      <div className="flex items-center justify-between pt-4 mb-2">
+        <h2 className="text-3xl font-extrabold bg-gradient-to-r from-amber-200 to-amber-500 text-transparent bg-clip-text">{t('spending.title')}</h2>
+        <motion.button whileHover={{ scale: 1.1, rotate: 90 }} whileTap={{ scale: 0.9 }} onClick={onClose} className="p-2 bg-white/10 rounded-full hover:bg-white/20 text-white"><X size={20} /></motion.button>
+      </div>
+
+      <div className="flex items-center justify-between">
+        <motion.button whileTap={{ scale: 0.9 }} onClick={() => shiftMonth(-1)} className="p-2 bg-white/10 rounded-full hover:bg-white/20 text-white"><ChevronLeft size={18} /></motion.button>
+        <span className="font-bold text-lg text-amber-400">{formatMonth(month)}</span>
+        <motion.button whileTap={{ scale: 0.9 }} onClick={() => shiftMonth(1)} disabled={month >= monthKey(new Date())} className="p-2 bg-white/10 rounded-full hover:bg-white/20 text-white disabled:opacity-30"><ChevronRight size={18} /></motion.button>
+      </div>
+
+      {overBudget.length > 0 && (
+        <div className="bg-red-500/10 border border-red-500/30 text-red-400 rounded-2xl p-4 text-sm font-semibold flex items-start">
+          <AlertCircle size={18} className="mr-2 mt-0.5 shrink-0" />
+          <span>{t('spending.overBudget', { names: overBudget.map(({ pocket }) => pocket.name).join(', ') })}</span>
+        </div>
+      )}
+
+      {reports.length === 0 ? (
+        <p className="text-sm text-white/40 text-center py-8 bg-black/20 rounded-2xl border border-white/5 font-medium">{t('spending.empty')}</p>
+      ) : reports.map(({ pocket, report }) => {
+        const money = (v: number) => formatMoney(v, pocket.currency);
+        const used = report.allocated > 0 ? Math.min(1, report.spent / report.allocated) : 1;
+        return (
+          <GlassCard key={pocket.id} className={report.overBudget ? 'border-red-500/40' : ''}>
+            <div className="flex justify-between items-end mb-2">
+              <span className="font-bold text-lg">{pocket.name}</span>
+              <span className="text-sm font-medium text-white/50"><span className={`font-black text-lg ${report.overBudget ? 'text-red-400' : 'text-amber-400'}`}>{money(report.spent)}</span> / {money(report.allocated)}</span>
+            </div>
+            <div className="h-2 bg-white/10 rounded-full overflow-hidden">
+              <motion.div initial={{ width: 0 }} animate={{ width: `${used * 100}%` }} className={`h-full rounded-full ${report.overBudget ? 'bg-red-400' : 'bg-amber-400'}`} />
+            </div>
+            <div className={`text-xs font-bold mt-2 ${report.overBudget ? 'text-red-400' : 'text-white/40'}`}>
+              {report.allocated === 0 ? t('spending.nothingAllocated')
+                : report.overBudget ? t('spending.over', { amount: money(report.spent - report.allocated) })
+                : t('spending.left', { amount: money(report.allocated - report.spent) })}
+            </div>
+
+            {report.categories.length > 0 && (
+              <div className="mt-5 space-y-2">
+                {report.categories.slice(0, 3).map(({ category, amount }: { category: string, amount: number }) => (
+                  <div key={category} className="flex justify-between text-sm font-medium">
+                    <span className="text-white/70">{categoryLabel(category)}</span>
+                    <span><span className="text-white/90 font-bold">{money(amount)}</span> <span className="text-white/40 text-xs">{Math.round((amount / report.spent) * 100)}%</span></span>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {report.expenses.length > 0 && (
+              <>
+                <button onClick={() => setOpen(open === pocket.id ? null : pocket.id)} className="text-xs font-bold text-white/40 hover:text-amber-400 transition-colors mt-4">
+                  {open === pocket.id ? t('spending.hide') : t('spending.count', { count: report.expenses.length })}
+                </button>
+                {open === pocket.id && (
+                  <div className="mt-3 pt-3 border-t border-white/10 space-y-2">
+                    {report.expenses.map((e: Expense) => (
+                      <div key={e.id} className="flex justify-between items-center text-xs font-medium">
+                        <div className="min-w-0 mr-3">
+                          <div className="text-white/80 truncate">{e.merchant || categoryLabel(e.category)}</div>
+                          <div className="text-white/40">{formatShortDate(e.date)}{e.merchant && ` • ${categoryLabel(e.category)}`}{e.note && ` • ${e.note}`}</div>
+                        </div>
+                        <div className="flex items-center space-x-2 shrink-0">
+                          <span className="font-bold text-red-400">-{money(e.amount)}</span>
+                          <motion.button whileTap={{ scale: 0.9 }} onClick={() => onDelete(e)} title={t('common.delete')} className="text-white/30 hover:text-red-400 p-1 transition-colors"><Trash2 size={14} /></motion.button>
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </>
+            )}
+          </GlassCard>
+        );
+      })}
+    </motion.div>
+  );
+}
@@ -0,0 +1,30 @@
+import { Debt, Exchange, Item } from './types';
+import { convert } from './money';
+
+// An account made of pockets has no balance of its own: it is the sum of its pockets, in the account's currency.
+export const accountBalance = (account: Item, pockets: Item[], exchange: Exchange) =>
+  account.sumOfPockets
+    ? parseFloat(pockets.filter(p => p.accountId === account.id).reduce((acc, p) => acc + convert(p.balance, p.currency, account.currency, exchange), 0).toFixed(2))
+    : account.balance;
+
+// In the base currency.
+export const netWorth = (accounts: Item[], pockets: Item[], exchange: Exchange) =>
+  parseFloat(accounts.reduce((acc, a) => acc + convert(accountBalance(a, pockets, exchange), a.currency, exchange.base, exchange), 0).toFixed(2));
+
+// The true balance counts what an item lent as still its own and what it borrowed as not, at the rate of the debt.
+export function virtualBalance(debts: Debt[], id: string, balance: number) {
+  let v = balance;
+  debts.filter(d => d.status === 'open').forEach(d => {
+    if (d.borrowFrom === id) v += d.remaining;
+    if (d.toFund === id) v -= d.remaining * (d.rate ?? 1);
+  });
+  return parseFloat(v.toFixed(2));
+}
+
+// What a debt can be borrowed from or fund: items with a balance of their own, so not accounts made of pockets.
+export const debtSources = (accounts: Item[], pockets: Item[]) => [...accounts, ...pockets].filter(i => !i.archived && !i.sumOfPockets);
+
+// The chosen id while it is still among the options and not excluded, otherwise the first option that is not.
+// Forms pick through it when rendering and saving, so items that arrive or go away never leave them on a stale id.
+export const pickItem = (options: Item[], id: string, exclude?: string) =>
+  options.some(o => o.id === id && o.id !== exclude) ? id : options.find(o => o.id !== exclude)?.id || '';
@@ -0,0 +1,40 @@
+import { Charge } from './types';
+
+export const monthKey = (d: Date) => `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}`;
+export const monthNumber = (key: string) => { const [y, m] = key.split('-').map(Number); return y * 12 + m - 1; };
+export const startOfDay = (d: Date) => new Date(d.getFullYear(), d.getMonth(), d.getDate());
+export const toDateInput = (d: Date) => `${monthKey(d)}-${String(d.getDate()).padStart(2, '0')}`;
+export const fromDateInput = (s: string) => { const [y, m, d] = s.split('-').map(Number); return new Date(y, m - 1, d); };
+// Clamps the day so a charge on the 31st still lands on the last day of shorter months.
+export const dayInMonth = (year: number, month: number, day: number) => new Date(year, month, Math.min(day, new Date(year, month + 1, 0).getDate()));
+
+export function isChargeDueInMonth(charge: Charge, year: number, month: number) {
+  if (charge.frequency === 'monthly') return true;
+  const period = charge.frequency === 'yearly' ? 12 : Math.max(1, charge.everyMonths);
+  const diff = year * 12 + month - monthNumber(charge.startMonth);
+  return diff >= 0 && diff % period === 0;
+}
+
+export function chargeDatesBetween(charge: Charge, from: Date, to: Date) {
+  const dates: Date[] = [];
+  for (let n = from.getFullYear() * 12 + from.getMonth(); n <= to.getFullYear() * 12 + to.getMonth(); n++) {
+    const year = Math.floor(n / 12), month = n % 12;
+    if (!isChargeDueInMonth(charge, year, month)) continue;
+    const date = dayInMonth(year, month, charge.day);
+    if (date >= from && date < to) dates.push(date);
+  }
+  return dates;
+}
+
+export function dueCharges(charges: Charge[], accountId: string, from: Date, to: Date) {
+  return charges
+    .filter(c => c.accountId === accountId)
+    .flatMap(charge => chargeDatesBetween(charge, from, to).map(date => ({ charge, date })))
+    .sort((a, b) => a.date.getTime() - b.date.getTime());
+}
+
+export function nextPayday(payday: number, today = new Date()) {
+  const from = startOfDay(today);
+  const thisMonth = dayInMonth(from.getFullYear(), from.getMonth(), payday);
+  return thisMonth > from ? thisMonth : dayInMonth(from.getFullYear(), from.getMonth() + 1, payday);
+}
@@ -0,0 +1,47 @@
+import { Expense, Item, JournalEntry } from './types';
+import { monthKey } from './calendar';
+import { MessageKey, t } from './i18n';
+
+// Default categories are stored under these names whatever the locale, and shown translated.
+export const EXPENSE_CATEGORIES = ['Courses', 'Restaurant', 'Transport', 'Loisirs', 'Shopping', 'Santé', 'Maison', 'Cadeaux', 'Autre'];
+
+export const categoryLabel = (category: string) =>
+  EXPENSE_CATEGORIES.includes(category) ? t(`categories.${category}` as MessageKey) : category;
+
+export const categoryFromLabel = (label: string) =>
+  EXPENSE_CATEGORIES.find(c => categoryLabel(c).toLowerCase() === label.trim().toLowerCase()) ?? label;
+
+export type CategoryTotal = { category: string; amount: number };
+
+export type EnvelopeReport = {
+  allocated: number;
+  spent: number;
+  categories: CategoryTotal[];
+  expenses: Expense[];
+  overBudget: boolean;
+};
+
+const round = (v: number) => parseFloat(v.toFixed(2));
+
+// The default categories, then the custom ones already used, most frequent first.
+export function knownCategories(expenses: Expense[]) {
+  const counts = new Map<string, number>();
+  expenses.forEach(e => counts.set(e.category, (counts.get(e.category) || 0) + 1));
+  const custom = [...counts.entries()].filter(([c]) => !EXPENSE_CATEGORIES.includes(c)).sort((a, b) => b[1] - a[1]).map(([c]) => c);
+  return [...EXPENSE_CATEGORIES, ...custom];
+}
+
+// allocated is what the paychecks of the month put in the pocket, read from the journal entries still applied.
+// The pocket is over budget when the month's expenses exceed it; without any allocation there is no budget to exceed.
+export function envelopeReport(pocket: Item, month: string, entries: JournalEntry[], expenses: Expense[]): EnvelopeReport {
+  const allocated = round(entries
+    .filter(e => e.kind === 'paycheck' && monthKey(new Date(e.timestamp)) === month)
+    .flatMap(e => e.balances.filter(c => c.collection === 'pockets' && c.itemId === pocket.id))
+    .reduce((acc, c) => acc + Math.max(0, c.after - c.before), 0));
+  const spentHere = expenses.filter(e => e.pocketId === pocket.id && e.date.startsWith(month)).sort((a, b) => b.date.localeCompare(a.date));
+  const spent = round(spentHere.reduce((acc, e) => acc + e.amount, 0));
+  const byCategory = new Map<string, number>();
+  spentHere.forEach(e => byCategory.set(e.category, (byCategory.get(e.category) || 0) + e.amount));
+  const categories = [...byCategory.entries()].map(([category, amount]) => ({ category, amount: round(amount) })).sort((a, b) => b.amount - a.amount);
+  return { allocated, spent, categories, expenses: spentHere, overBudget: allocated > 0 && spent > allocated };
+}
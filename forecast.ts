@@ -0,0 +1,114 @@
+import { Charge, Debt, Exchange, Item, Splitter } from './types';
+import { allocate } from './splitter';
+import { dayInMonth, dueCharges, monthKey, startOfDay } from './calendar';
+import { convert } from './money';
+
+// overrides maps a month ('YYYY-MM') to the paycheck expected that month when it differs from the usual one.
+// incomeChange is a percentage applied on top of every paycheck; skippedCharges are charge ids left out.
+export type ForecastAssumptions = { income: number; payday: number; overrides: Record<string, number>; incomeChange: number; skippedCharges: string[] };
+
+export type ForecastMonth = {
+  month: string;
+  income: number;
+  charges: number;
+  repayments: number;
+  balances: Record<string, number>;
+  shortfall: number;
+  negativePockets: string[];
+};
+
+type ForecastInput = {
+  accounts: Item[];
+  pockets: Item[];
+  charges: Charge[];
+  splitter: Splitter;
+  debts: Debt[];
+  exchange: Exchange;
+  // True balances (getVirtual) of accounts and pockets: open debts are already counted as settled.
+  startBalances: Record<string, number>;
+  assumptions: ForecastAssumptions;
+  horizon: number;
+  today?: Date;
+};
+
+const round = (v: number) => parseFloat(v.toFixed(2));
+
+export const expectedIncome = (assumptions: ForecastAssumptions, month: string) =>
+  round((assumptions.overrides[month] ?? assumptions.income) * (1 + assumptions.incomeChange / 100));
+
+// Replays each month like PaycheckFlow would: on payday the paycheck covers the main account's charges until the next
+// payday, repayment plans are taken, and the splitter distributes the rest. The current month only counts what is still
+// ahead, so a paycheck already received is not counted twice. Charges of an account made of pockets are taken from its
+// first pocket, since nothing says which pocket pays them. Amounts are converted into the currency of the item they land on.
+export function forecast({ accounts, pockets, charges, splitter, debts, exchange, startBalances, assumptions, horizon, today = new Date() }: ForecastInput): ForecastMonth[] {
+  const main = accounts.find(a => a.receivesPaycheck && !a.archived);
+  const activePockets = pockets.filter(p => !p.archived);
+  const activeCharges = charges.filter(c => !assumptions.skippedCharges.includes(c.id));
+  const balances: Record<string, number> = { ...startBalances };
+  const remaining = new Map(debts.filter(d => d.status === 'open' && d.perPaycheck).map(d => [d.id, d.remaining]));
+  const currencyOf = (id: string) => [...accounts, ...pockets].find(i => i.id === id)?.currency || exchange.base;
+  const payerOf = (accountId: string) => {
+    const account = accounts.find(a => a.id === accountId);
+    return account?.sumOfPockets ? activePockets.find(p => p.accountId === accountId)?.id : accountId;
+  };
+  const pay = (charge: Charge) => {
+    const payer = payerOf(charge.accountId);
+    if (payer) balances[payer] = round((balances[payer] || 0) - convert(charge.amount, currencyOf(charge.accountId), currencyOf(payer), exchange));
+  };
+
+  const from = startOfDay(today);
+  const months: ForecastMonth[] = [];
+  for (let i = 0; i < horizon; i++) {
+    const start = i === 0 ? from : new Date(from.getFullYear(), from.getMonth() + i, 1);
+    const end = new Date(from.getFullYear(), from.getMonth() + i + 1, 1);
+    const month = monthKey(start);
+    const payday = dayInMonth(start.getFullYear(), start.getMonth(), assumptions.payday);
+    const paid = !!main && payday >= start;
+    const income = paid ? expectedIncome(assumptions, month) : 0;
+    let shortfall = 0;
+    let repayments = 0;
+
+    const due = accounts.flatMap(a => dueCharges(activeCharges, a.id, start, end));
+    const beforePayday = due.filter(({ date }) => !paid || date < payday);
+    beforePayday.forEach(({ charge }) => pay(charge));
+
+    if (paid) {
+      const nextPayday = dayInMonth(end.getFullYear(), end.getMonth(), assumptions.payday);
+      const needed = dueCharges(activeCharges, main!.id, payday, nextPayday).reduce((acc, { charge }) => acc + charge.amount, 0);
+      debts.forEach(d => {
+        const left = remaining.get(d.id);
+        if (!left) return;
+        const amount = Math.min(d.perPaycheck!, left);
+        remaining.set(d.id, round(left - amount));
+        // In true balances the repayment leaves the main account and frees the item the debt funded.
+        if (d.toFund in balances) balances[d.toFund] = round(balances[d.toFund] + amount * (d.rate ?? 1));
+        repayments += convert(amount, currencyOf(d.borrowFrom), main!.currency, exchange);
+      });
+      const available = (balances[main!.id] || 0) + income - repayments;
+      shortfall = Math.max(0, round(needed - available));
+      const excess = round(Math.max(0, available - needed));
+      const split = allocate(excess, splitter, activePockets.map(p => ({ ...p, balance: balances[p.id] || 0 })));
+      const distributed = Object.values(split.byPocket).reduce((acc, v) => acc + v, 0);
+      Object.entries(split.byPocket).forEach(([id, amount]) => { balances[id] = round((balances[id] || 0) + convert(amount, main!.currency, currencyOf(id), exchange)); });
+      balances[main!.id] = round(available - distributed);
+      due.filter(({ date }) => date >= payday).forEach(({ charge }) => pay(charge));
+    }
+
+    if (main) shortfall = Math.max(shortfall, round(-(balances[main.id] || 0)));
+    accounts.filter(a => a.sumOfPockets).forEach(a => {
+      balances[a.id] = round(pockets.filter(p => p.accountId === a.id).reduce((acc, p) => acc + convert(balances[p.id] || 0, p.currency, a.currency, exchange), 0));
+    });
+    months.push({
+      month,
+      income,
+      charges: round(due.reduce((acc, { charge }) => acc + convert(charge.amount, currencyOf(charge.accountId), main?.currency || exchange.base, exchange), 0)),
+      repayments: round(repayments),
+      balances: { ...balances },
+      shortfall,
+      negativePockets: activePockets.filter(p => (balances[p.id] || 0) < 0).map(p => p.id),
+    });
+  }
+  return months;
+}
+
+export const firstAlert = (months: ForecastMonth[]) => months.find(m => m.shortfall > 0 || m.negativePockets.length > 0) || null;
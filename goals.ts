@@ -0,0 +1,85 @@
+import { Exchange, Item, JournalEntry, SplitRule, Splitter } from './types';
+import { allocate } from './splitter';
+import { convert } from './money';
+
+export type GoalProgress = {
+  saved: number;
+  remaining: number;
+  progress: number;
+  monthsLeft: number | null;
+  monthlyNeeded: number | null;
+  expected: number | null;
+  onTrack: boolean | null;
+};
+
+// Paychecks come once a month, so a deadline in the current month leaves one paycheck at most.
+export function monthsLeft(deadline: string, now = new Date()) {
+  const [year, month] = deadline.split('-').map(Number);
+  return Math.max(0, (year * 12 + month - 1) - (now.getFullYear() * 12 + now.getMonth()) + 1);
+}
+
+// expected is what the splitter is projected to put in the pocket each month, or null when there is no paycheck to project from.
+export function goalProgress(pocket: Item, expected: number | null, now = new Date()): GoalProgress | null {
+  if (!pocket.goal) return null;
+  const { target, deadline } = pocket.goal;
+  const saved = Math.max(0, pocket.balance);
+  const remaining = parseFloat(Math.max(0, target - saved).toFixed(2));
+  const progress = target > 0 ? Math.min(1, saved / target) : 1;
+  const months = deadline ? monthsLeft(deadline, now) : null;
+  const monthlyNeeded = months === null ? null : remaining === 0 ? 0 : months === 0 ? remaining : Math.ceil((remaining / months) * 100) / 100;
+  const onTrack = monthlyNeeded === null || expected === null ? null : remaining === 0 || (months! > 0 && expected >= monthlyNeeded);
+  return { saved, remaining, progress, monthsLeft: months, monthlyNeeded, expected, onTrack };
+}
+
+// A paycheck entry adds the income to the accounts and pockets and moves nothing else in, so its changes sum to the income.
+// Each change is converted from its item's currency into currency; an item deleted since counts in the base currency.
+export function averagePaycheck(entries: JournalEntry[], items: Item[], currency: string, exchange: Exchange, count = 6) {
+  const currencyOf = (id: string) => items.find(i => i.id === id)?.currency || exchange.base;
+  const incomes = entries
+    .filter(e => e.kind === 'paycheck')
+    .slice(-count)
+    .map(e => e.balances.reduce((acc, c) => acc + convert(c.after - c.before, currencyOf(c.itemId), currency, exchange), 0));
+  if (!incomes.length) return null;
+  return parseFloat((incomes.reduce((acc, v) => acc + v, 0) / incomes.length).toFixed(2));
+}
+
+// Sets the percentage of each pocket with a deadline to what it needs from this excess, and shares what is left between
+// the other percentage rules in proportion to their current values. feasible is false when the goals need more than everything.
+export function suggestSplitter(excess: number, splitter: Splitter, pockets: Item[], now = new Date()): { splitter: Splitter; feasible: boolean } {
+  const fixedRules = splitter.rules.filter(r => r.kind === 'fixed');
+  const fixed = allocate(excess, { rules: fixedRules, remainderPocketId: '' }, pockets);
+  const base = fixed.remainder;
+
+  const needs = new Map<string, number>();
+  pockets.forEach(p => {
+    const progress = goalProgress(p, null, now);
+    if (!progress?.monthlyNeeded) return;
+    const fromFixed = fixed.byPocket[p.id] || 0;
+    const need = Math.max(0, progress.monthlyNeeded - fromFixed);
+    if (need > 0) needs.set(p.id, base > 0 ? Math.ceil((need / base) * 100) : 100);
+  });
+
+  const goalsTotal = [...needs.values()].reduce((acc, v) => acc + v, 0);
+  const feasible = goalsTotal <= 100;
+  const scale = feasible ? 1 : 100 / goalsTotal;
+  needs.forEach((pct, id) => needs.set(id, Math.floor(pct * scale)));
+
+  const others = splitter.rules.filter(r => r.kind === 'percent' && !needs.has(r.pocketId));
+  const othersTotal = others.reduce((acc, r) => acc + r.value, 0);
+  const free = 100 - [...needs.values()].reduce((acc, v) => acc + v, 0);
+  const othersScale = othersTotal > Math.max(0, free) ? Math.max(0, free) / othersTotal : 1;
+
+  const seen = new Set<string>();
+  const rules: SplitRule[] = splitter.rules.map(r => {
+    if (r.kind !== 'percent') return r;
+    if (!needs.has(r.pocketId)) return { ...r, value: Math.floor(r.value * othersScale) };
+    const first = !seen.has(r.pocketId);
+    seen.add(r.pocketId);
+    return { ...r, value: first ? needs.get(r.pocketId)! : 0 };
+  });
+  needs.forEach((value, pocketId) => {
+    if (!seen.has(pocketId)) rules.push({ id: `${Date.now()}${pocketId}`, pocketId, kind: 'percent', value });
+  });
+
+  return { splitter: { ...splitter, rules }, feasible };
+}
@@ -0,0 +1,60 @@
+import { useLayoutEffect, useReducer } from 'react';
+import { fr } from './locales/fr';
+import { en } from './locales/en';
+import { fromDateInput } from './calendar';
+
+export type Locale = 'fr' | 'en';
+export type MessageKey = keyof typeof fr;
+export type Catalog = Record<MessageKey, string>;
+
+// tag drives number, currency and date formatting.
+export const LOCALES: Record<Locale, { label: string; tag: string; catalog: Catalog }> = {
+  fr: { label: 'Français', tag: 'fr-FR', catalog: fr },
+  en: { label: 'English', tag: 'en-GB', catalog: en },
+};
+
+// The locale of the active profile. It is module state rather than React context so that formatting and messages
+// work the same from components and from plain modules.
+let current: Locale = 'fr';
+
+export const setLocale = (locale: Locale) => { current = locale; };
+export const getLocale = () => current;
+export const localeTag = () => LOCALES[current].tag;
+export const isLocale = (v: unknown): v is Locale => typeof v === 'string' && v in LOCALES;
+
+// Makes locale the active one once the component has rendered, and renders it again before it is painted if that
+// changed anything. Null leaves the locale alone.
+export function useLocale(locale: Locale | null) {
+  const [, rerender] = useReducer((n: number) => n + 1, 0);
+  useLayoutEffect(() => {
+    if (!locale || locale === current) return;
+    setLocale(locale);
+    rerender();
+  });
+}
+
+export const browserLocale = (): Locale => (navigator.language || '').toLowerCase().startsWith('fr') ? 'fr' : 'en';
+
+// Placeholders are written {name}; one without a value is left as is.
+export function t(key: MessageKey, params?: Record<string, string | number>) {
+  const text = LOCALES[current].catalog[key] ?? fr[key] ?? key;
+  return params ? text.replace(/\{(\w+)\}/g, (match, name) => name in params ? String(params[name]) : match) : text;
+}
+
+// Accepts a Date, an ISO timestamp or a YYYY-MM-DD day. Anything else, such as dates stored as text by older
+// versions, is shown as it is.
+export function formatDate(value: Date | string, options: Intl.DateTimeFormatOptions = { dateStyle: 'short' }) {
+  const date = typeof value !== 'string' ? value
+    : /^\d{4}-\d{2}-\d{2}$/.test(value) ? fromDateInput(value)
+    : /^\d{4}-\d{2}-\d{2}T/.test(value) ? new Date(value)
+    : null;
+  return !date || isNaN(date.getTime()) ? String(value) : new Intl.DateTimeFormat(localeTag(), options).format(date);
+}
+
+export const formatDateTime = (value: Date | string) => formatDate(value, { dateStyle: 'short', timeStyle: 'short' });
+
+export const formatMonth = (month: string, style: 'long' | 'short' = 'long') =>
+  formatDate(`${month}-01`, { month: style, year: 'numeric' });
+
+export const formatNumber = (value: number, options: Intl.NumberFormatOptions = {}) =>
+  new Intl.NumberFormat(localeTag(), options).format(value);
@@ -0,0 +1,418 @@
+import type { Catalog } from '../i18n';
+
+export const en: Catalog = {
+  'app.name': 'Accountant',
+  'app.tagline': 'Zero Mental Finance',
+
+  'common.cancel': 'Cancel',
+  'common.apply': 'Apply',
+  'common.save': 'Save',
+  'common.import': 'Import',
+  'common.delete': 'Delete',
+
+  'errors.invalidJson': 'The file is not valid JSON.',
+
+  'dashboard.saveError': 'Could not save on this device, your latest changes are not kept: {error}',
+  'dashboard.updateReady': 'New version available',
+  'dashboard.update': 'Update',
+  'dashboard.newPaycheck': 'New Paycheck',
+  'dashboard.accounts': 'Accounts',
+  'dashboard.pockets': 'Pockets',
+  'dashboard.total': 'Total:',
+
+  'sync.syncing': 'Syncing…',
+  'sync.synced': 'Synced',
+  'sync.pending': 'Pending',
+  'sync.offline': 'Offline',
+  'sync.error': 'Server unreachable',
+  'sync.rejected': '{count} rejected',
+
+  'command.placeholder': '20€ restaurant from Fun…',
+  'command.local': 'Local',
+
+  'quick.itemNotFound': 'Account or pocket not found.',
+  'quick.sumOfPockets': '{name} is the sum of its pockets: pick one of its pockets instead.',
+  'quick.missingAmount': 'Missing amount.',
+  'quick.pocketNotFound': 'Pocket not found.',
+  'quick.invalidDate': 'Invalid date.',
+  'quick.missingDebtItems': 'Both the lending account and the one to fund are needed.',
+  'quick.sameDebtItems': 'The lender and the funded item must be different.',
+  'quick.missingIncome': 'Missing paycheck amount.',
+  'quick.noAmount': 'I couldn\'t find an amount.',
+  'quick.debtHint': 'Say who lends ("from …") and what it funds ("for …").',
+  'quick.whichPocket': 'Which pocket does this expense come from?',
+  'quick.notUnderstood': 'I didn\'t understand that sentence.',
+  'quick.on': 'on {date}',
+  'quick.expense': 'Expense of {amount} ({what}) from {pocket}',
+  'quick.balance': '{name} balance: {before} → {after}',
+  'quick.debt': 'Borrow {amount} from {lender} to fund {funded}',
+  'quick.paycheck': 'Paycheck of {amount}: open the split',
+
+  'expense.title': 'Expense',
+  'expense.report': 'Monthly report',
+  'expense.leftIn': 'Left in {pocket}:',
+  'expense.lessDetails': 'Fewer details',
+  'expense.moreDetails': 'Date, merchant, note…',
+  'expense.category': 'Category',
+  'expense.merchant': 'Merchant',
+  'expense.note': 'Note',
+  'expense.spend': 'Spend {amount} from {pocket}',
+  'expense.add': 'Add the expense',
+
+  'categories.Courses': 'Groceries',
+  'categories.Restaurant': 'Restaurant',
+  'categories.Transport': 'Transport',
+  'categories.Loisirs': 'Leisure',
+  'categories.Shopping': 'Shopping',
+  'categories.Santé': 'Health',
+  'categories.Maison': 'Home',
+  'categories.Cadeaux': 'Gifts',
+  'categories.Autre': 'Other',
+
+  'items.restore': 'Restore',
+  'items.archive': 'Archive',
+  'items.sumOfPockets': 'Sum of pockets',
+  'items.receivesPaycheck': 'Receives the paycheck',
+  'items.account': 'Account: {name}',
+  'items.nonZero': 'Balance not zero: {amount}',
+  'items.available': 'Really available: {amount}',
+  'items.newPocket': 'New pocket',
+  'items.newAccount': 'New account',
+
+  'goals.target': 'Goal {symbol}',
+  'goals.for': 'For…',
+  'goals.goal': 'Goal',
+  'goals.progress': '{percent}% of {target}',
+  'goals.reached': 'Goal reached',
+  'goals.monthlyNeeded': '{amount}/month needed',
+  'goals.onTrack': '{amount} expected, on track',
+  'goals.behind': '{amount} expected, behind',
+
+  'paycheck.howMuch': 'How much did you get? ({symbol})',
+  'paycheck.example': 'E.g. 1500',
+  'paycheck.currentAvailable': 'Currently available in {account}',
+  'paycheck.mainAccount': 'main account',
+  'paycheck.next': 'Next paycheck',
+  'paycheck.fixedCharges': 'Fixed charges',
+  'paycheck.plannedRepayments': 'Planned repayments',
+  'paycheck.settles': 'settles',
+  'paycheck.bunker': 'Bunker status',
+  'paycheck.short': 'Short by {amount}',
+  'paycheck.covered': 'Covered',
+
+  'splitter.title': 'The Splitter',
+  'splitter.excess': 'Surplus to distribute',
+  'splitter.preset': 'Preset…',
+  'splitter.deletePreset': 'Delete the preset',
+  'splitter.suggest': 'Suggest for the goals',
+  'splitter.suggestFeasible': 'Percentages adjusted to meet every goal.',
+  'splitter.suggestShort': 'This paycheck is not enough to meet every goal: percentages set as high as possible.',
+  'splitter.min': 'Min {symbol}',
+  'splitter.cap': 'Cap {symbol}',
+  'splitter.fixed': 'Fixed amount',
+  'splitter.share': 'Share of the rest',
+  'splitter.capped': 'cap reached',
+  'splitter.minimum': 'minimum',
+  'splitter.addRule': 'Add a rule',
+  'splitter.remainder': 'Remainder and cents',
+  'splitter.stayOn': 'Stay on {account}',
+  'splitter.theAccount': 'the account',
+  'splitter.presetName': 'Preset name (e.g. Normal month)',
+  'splitter.confirm': 'Confirm the distribution',
+
+  'debts.title': 'Debts & Transfers',
+  'debts.borrowedFrom': 'Borrowed from',
+  'debts.toFund': 'To fund',
+  'debts.amount': 'Amount ({symbol})',
+  'debts.note': 'Note (opt)',
+  'debts.noteExample': 'E.g. Gift',
+  'debts.perPaycheck': 'Repay with each paycheck (opt)',
+  'debts.perPaycheckExample': 'E.g. 50',
+  'debts.rate': 'Rate: 1 {from} = ? {to}',
+  'debts.receives': '{name} receives {amount}',
+  'debts.add': 'Add the debt',
+  'debts.settledTitle': 'Settled debts',
+  'debts.openTitle': 'Open',
+  'debts.showOpen': 'Open ({count})',
+  'debts.showSettled': 'Settled ({count})',
+  'debts.repayments': '{count} repayment(s)',
+  'debts.none': 'No open debt 🎉',
+  'debts.planShort': '{amount} per paycheck',
+  'debts.outOf': 'of {amount}',
+  'debts.repayAll': 'Repay everything',
+  'debts.repaidAmount': 'Amount repaid',
+  'debts.repay': 'Repay',
+  'debts.plan': 'Plan: with each paycheck',
+  'debts.fromPaycheck': 'paycheck',
+
+  'charges.monthly': 'Monthly',
+  'charges.yearlyIn': 'Yearly ({month})',
+  'charges.everyMonths': 'Every {months} months',
+  'charges.title': 'Fixed Charges',
+  'charges.perMonth': '/month',
+  'charges.payday': 'Payday',
+  'charges.name': 'Name',
+  'charges.nameExample': 'E.g. Netflix',
+  'charges.day': 'Debit day',
+  'charges.account': 'Debited from',
+  'charges.frequency': 'Frequency',
+  'charges.yearly': 'Yearly',
+  'charges.custom': 'Every N months',
+  'charges.month': 'Debit month',
+  'charges.firstMonth': 'First debit',
+  'charges.everyLabel': 'Every (months)',
+  'charges.add': 'Add the charge',
+  'charges.none': 'No fixed charge',
+  'charges.onDay': 'On the {day}',
+
+  'rates.noneFound': 'No rate recognised in the file.',
+  'rates.missingBase': 'The file gives no rate for {currency}.',
+  'rates.title': 'Currencies',
+  'rates.updated': 'Rates of {date}',
+  'rates.base': 'Base currency',
+  'rates.missing': 'Missing rate for {currencies}: these amounts count one for one in the totals.',
+  'rates.addCurrency': '+ Currency',
+
+  'chart.30d': '30 d',
+  'chart.3m': '3 months',
+  'chart.1y': '1 year',
+  'chart.all': 'All',
+  'chart.notEnough': 'Not enough snapshots yet',
+  'chart.range': 'min {min} • max {max}',
+  'chart.title': 'Trend',
+  'chart.netWorth': 'Net worth',
+  'chart.paydays': 'Dashed lines: paychecks distributed',
+  'chart.monthly': 'Month by month',
+
+  'history.title': 'History',
+  'history.undo': 'Undo ({count})',
+  'history.redo': 'Redo ({count})',
+  'history.check': 'Check',
+  'history.drifts': '{count} discrepancy(ies)',
+  'history.consistent': 'Consistent',
+  'history.drift': 'journal {journal} • current {current}',
+  'history.acceptDrift': 'Record the current balances',
+  'history.empty': 'No operation recorded',
+  'history.undoTo': 'Undo up to here',
+  'history.transactions': 'Bank transactions',
+
+  'journal.adjustment': 'Adjustment',
+  'journal.paycheck': 'Paycheck',
+  'journal.debt_created': 'Debt',
+  'journal.debt_repaid': 'Partial repayment',
+  'journal.debt_settled': 'Repayment',
+  'journal.debt_updated': 'Repayment plan',
+  'journal.import': 'Statement',
+  'journal.expense': 'Expense',
+  'journal.undo': 'Undo',
+  'journal.redo': 'Redo',
+  'journal.undone': 'Undone: {label}',
+  'journal.redone': 'Redone: {label}',
+  'journal.adjusted': '{name} adjusted',
+  'journal.expenseAdded': '{what}: {amount} ({pocket})',
+  'journal.expenseDeleted': 'Expense deleted: {what} ({pocket})',
+  'journal.debtCreated': 'Debt {debt}',
+  'journal.debtSettled': 'Debt {debt} settled',
+  'journal.debtRepaid': 'Debt {debt}: {amount} repaid',
+  'journal.debtPlan': 'Debt {debt}: {amount} per paycheck',
+  'journal.debtPlanRemoved': 'Debt {debt}: plan removed',
+  'journal.driftRecorded': 'Discrepancy recorded',
+  'journal.paycheck.label': 'Paycheck of {amount} distributed',
+
+  'backup.title': 'Backup',
+  'backup.export': 'Export',
+  'backup.notPersisted': 'The browser hasn\'t guaranteed to keep the data: it may clear it when short of space. Export a backup regularly.',
+  'backup.moreErrors': '… and {count} more',
+  'backup.preview': 'Import preview',
+  'backup.identical': 'Same as the current data',
+  'backup.summary': '{accounts} account(s), {pockets} pocket(s), {debts} debt(s), {entries} operation(s)',
+  'backup.merge': 'Merge',
+  'backup.replace': 'Replace',
+
+  'storage.title': 'Unreadable data',
+  'storage.body': 'The data saved on this device couldn\'t be loaded. Nothing was changed: export it or restore a backup.',
+  'storage.downloadRaw': 'Download the raw data',
+  'storage.confirmReset': 'The current data will be overwritten with an empty profile. Continue?',
+  'storage.reset': 'Reset',
+  'storage.startOver': 'Start over',
+
+  'lock.subtitle': 'Data encrypted on this device',
+  'lock.placeholder': 'PIN or passphrase',
+  'lock.wrong': 'Wrong PIN.',
+  'lock.unlock': 'Unlock',
+  'lock.forgotten': 'A forgotten PIN can\'t be recovered: the encrypted data on this device becomes unreadable, and an exported backup has to be restored.',
+  'lock.forgottenReset': 'Importing a backup or starting over erases this encrypted data and removes the PIN.',
+  'lock.confirmReset': 'The encrypted data will be erased and replaced with an empty profile. Continue?',
+  'lock.forgot': 'Forgot the PIN?',
+  'lock.tooShort': 'The PIN must be at least {count} characters long.',
+  'lock.mismatch': 'The two PINs don\'t match.',
+  'lock.title': 'Lock',
+  'lock.after': 'Lock after',
+  'lock.lock': 'Lock',
+  'lock.change': 'Change',
+  'lock.remove': 'Remove',
+  'lock.intro': 'Protect the app with a PIN or a passphrase: the data is encrypted on this device and the app locks after a period of inactivity.',
+  'lock.setPin': 'Set a PIN',
+  'lock.current': 'Current PIN',
+  'lock.new': 'New PIN or passphrase',
+  'lock.confirm': 'Confirm',
+  'lock.passphraseHint': 'A long passphrase holds up better than a 4-digit PIN against someone who copies the data off the device.',
+  'lock.exportFirst': 'Export a backup first.',
+  'lock.plaintext': 'The data will be saved unencrypted on this device again.',
+  'lock.removePin': 'Remove the PIN',
+  'lock.changePin': 'Change the PIN',
+  'lock.enable': 'Encrypt and enable',
+  'lock.wrongCurrent': 'Wrong current PIN.',
+
+  'profiles.defaultName': 'My profile',
+  'profiles.recoveredName': 'Profile {index}',
+  'profiles.title': 'Profiles',
+  'profiles.add': 'Add a profile',
+  'profiles.language': 'Language',
+  'profiles.confirmDelete': '"{name}" and all its data will be deleted from this device. Continue?',
+
+  'onboarding.welcome': 'Create your profile: everyone in the household can have their own, with their accounts, pockets and language.',
+  'onboarding.newProfile': 'New profile',
+  'onboarding.name': 'Name',
+  'onboarding.currency': 'Currency',
+  'onboarding.create': 'Create the profile',
+  'onboarding.fromSync': 'The sync server already holds this profile\'s data, from another device: it will be retrieved rather than starting from a template.',
+  'onboarding.join': 'Retrieve my data',
+  'onboarding.fromBackup': 'Or start from an exported backup:',
+
+  'templates.solo': 'On my own',
+  'templates.soloDescription': 'A current account, and pockets for everyday spending, fun, gifts and savings.',
+  'templates.household': 'Household',
+  'templates.householdDescription': 'A joint account, and pockets for groceries, the home, holidays and savings.',
+  'templates.blank': 'Blank',
+  'templates.blankDescription': 'A single current account: everything else is yours to create.',
+  'templates.currentAccount': 'Current account',
+  'templates.jointAccount': 'Joint account',
+  'templates.pocketsAccount': 'Pockets',
+  'templates.everyday': 'Everyday',
+  'templates.fun': 'Fun',
+  'templates.gifts': 'Gifts',
+  'templates.savings': 'Savings',
+  'templates.groceries': 'Groceries',
+  'templates.home': 'Home',
+  'templates.holidays': 'Holidays',
+
+  'import.label': '{name} statement: {count} operation(s)',
+  'import.title': 'Bank statement',
+  'import.account': 'Account',
+  'import.chooseFile': 'Choose a CSV or OFX file',
+  'import.format': 'Format',
+  'import.custom': 'Custom',
+  'import.delimiter': 'Delimiter',
+  'import.tab': 'Tab',
+  'import.dates': 'Dates',
+  'import.dmy': 'DD/MM/YYYY',
+  'import.ymd': 'YYYY-MM-DD',
+  'import.mdy': 'MM/DD/YYYY',
+  'import.decimals': 'Decimals',
+  'import.date': 'Date',
+  'import.amount': 'Amount',
+  'import.description': 'Description',
+  'import.fee': 'Fee',
+  'import.balance': 'Balance',
+  'import.skipped': '{count} line(s) skipped: unreadable date or amount',
+  'import.reconcile': 'Reconciliation',
+  'import.statementBalance': 'Statement balance',
+  'import.unknown': 'Unknown',
+  'import.appBalance': '{name} balance in the app',
+  'import.fresh': 'New operations ({count})',
+  'import.difference': 'Difference',
+  'import.balanceUnknown': 'Statement balance unknown',
+  'import.reconciled': 'Reconciled',
+  'import.unmatched': '{count} unmatched operation(s): no fixed charge recognised and no pocket chosen.',
+  'import.sumOfPockets': '{name} is the sum of its pockets: only operations assigned to a pocket change the balances.',
+  'import.none': 'No operation recognised',
+  'import.duplicate': 'already imported',
+  'import.charge': 'Charge: {name}',
+  'import.noPocket': 'No pocket',
+  'import.apply': 'Update the balances',
+
+  'forecast.title': 'Forecast',
+  'forecast.assumptions': 'Assumptions',
+  'forecast.leaveWhatIf': 'Leave the simulation',
+  'forecast.whatIf': 'What if…?',
+  'forecast.simulation': 'Simulation: nothing is saved.',
+  'forecast.income': 'Usual paycheck ({symbol})',
+  'forecast.day': 'Day',
+  'forecast.average': 'Average of the latest paychecks, as no usual paycheck is set.',
+  'forecast.incomeChange': 'Income change',
+  'forecast.charges': 'Charges included',
+  'forecast.months': '{count} months',
+  'forecast.noMainAccount': 'No account receives the paycheck',
+  'forecast.firstRisk': 'First month at risk: {month}.',
+  'forecast.shortfall': '{name} is {amount} short of covering the charges.',
+  'forecast.negative': 'In the red: {names}.',
+  'forecast.covered': 'Everything is covered over {count} months.',
+  'forecast.chargesAmount': '-{amount} charges',
+  'forecast.debtsAmount': '-{amount} debts',
+  'forecast.pockets': 'Pockets {amount}',
+  'forecast.monthIncome': 'This month\'s paycheck',
+
+  'spending.title': 'Spending',
+  'spending.overBudget': 'Over budget: {names}.',
+  'spending.empty': 'No paycheck or expense this month',
+  'spending.nothingAllocated': 'Nothing received from paychecks this month',
+  'spending.over': 'Over by {amount}',
+  'spending.left': '{amount} left of what was allocated',
+  'spending.hide': 'Hide',
+  'spending.count': '{count} expense(s)',
+
+  'store.newerVersion': 'Data created by a newer version of the app (v{version}).',
+  'store.noMigration': 'No migration from version {version}.',
+  'store.noData': 'The document contains no data.',
+  'store.notAList': '"{key}" must be a list.',
+  'store.noId': 'entry without an id',
+  'store.entryError': '{key}[{index}]: {error}',
+  'store.missingName': 'missing name',
+  'store.invalidBalance': 'invalid balance',
+  'store.missingCurrency': 'missing currency',
+  'store.invalidGoal': 'invalid goal',
+  'store.missingAccounts': 'missing accounts',
+  'store.invalidAmount': 'invalid amount',
+  'store.invalidStatus': 'invalid status',
+  'store.missingRepayments': 'missing repayments',
+  'store.missingNameOrAccount': 'missing name or account',
+  'store.invalidAmountOrDay': 'invalid amount or day',
+  'store.invalidFrequency': 'invalid frequency',
+  'store.incompleteEntry': 'incomplete operation',
+  'store.missingAccountOrDate': 'missing account or date',
+  'store.missingPocketOrDate': 'missing pocket or date',
+  'store.missingCategory': 'missing category',
+  'store.incompleteSnapshot': 'incomplete balance snapshot',
+  'store.invalidField': 'Invalid "{key}".',
+  'store.invalidRules': 'invalid rules',
+  'store.unknownDebtItem': 'Debt {id}: unknown account or pocket.',
+  'store.unknownChargeAccount': 'Charge "{name}": unknown account.',
+  'store.noVersion': 'Document without a version or data.',
+  'store.legacyUnreadable': 'Unreadable old data "{key}".',
+  'store.readFailed': 'Could not read the storage: {error}',
+  'store.writeFailed': 'Could not write',
+  'store.nothingToEncrypt': 'No data to encrypt.',
+  'store.nothingToSave': 'No data to save.',
+
+  'diff.accounts': 'Accounts',
+  'diff.pockets': 'Pockets',
+  'diff.debts': 'Debts',
+  'diff.charges': 'Charges',
+  'diff.presets': 'Presets',
+  'diff.splitter': 'Splitter',
+  'diff.splitterRules': 'Split rules',
+  'diff.forecast': 'Forecast',
+  'diff.expectedPaychecks': 'Expected paychecks',
+  'diff.currencies': 'Currencies',
+  'diff.rates': 'Exchange rates (base {base})',
+  'diff.paycheck': 'Paycheck',
+  'diff.payday': 'Payday: {before} → {after}',
+  'diff.journal': 'History',
+  'diff.transactions': 'Statements',
+  'diff.expenses': 'Spending',
+  'diff.snapshots': 'Trend',
+  'diff.operations': '{count} operation(s)',
+  'diff.expenseCount': '{count} expense(s)',
+  'diff.days': '{count} day(s)',
+};
@@ -0,0 +1,418 @@
+// The reference catalog: every other locale must provide the same keys (see Catalog in i18n.ts).
+// Placeholders are written {name}.
+export const fr = {
+  'app.name': 'Accountant',
+  'app.tagline': 'Zero Mental Finance',
+
+  'common.cancel': 'Annuler',
+  'common.apply': 'Appliquer',
+  'common.save': 'Enregistrer',
+  'common.import': 'Importer',
+  'common.delete': 'Supprimer',
+
+  'errors.invalidJson': 'Le fichier n\'est pas un JSON valide.',
+
+  'dashboard.saveError': 'Sauvegarde locale impossible, tes dernières modifications ne sont pas conservées : {error}',
+  'dashboard.updateReady': 'Nouvelle version disponible',
+  'dashboard.update': 'Mettre à jour',
+  'dashboard.newPaycheck': 'Nouvelle Paye',
+  'dashboard.accounts': 'Comptes',
+  'dashboard.pockets': 'Poches',
+  'dashboard.total': 'Total :',
+
+  'sync.syncing': 'Synchronisation…',
+  'sync.synced': 'Synchronisé',
+  'sync.pending': 'En attente',
+  'sync.offline': 'Hors ligne',
+  'sync.error': 'Serveur injoignable',
+  'sync.rejected': '{count} rejeté(s)',
+
+  'command.placeholder': '20€ resto depuis Plaisirs…',
+  'command.local': 'Local',
+
+  'quick.itemNotFound': 'Compte ou poche introuvable.',
+  'quick.sumOfPockets': '{name} est la somme de ses poches : choisis plutôt une de ses poches.',
+  'quick.missingAmount': 'Montant manquant.',
+  'quick.pocketNotFound': 'Poche introuvable.',
+  'quick.invalidDate': 'Date invalide.',
+  'quick.missingDebtItems': 'Il faut le compte prêteur et celui à financer.',
+  'quick.sameDebtItems': 'Le prêteur et le financé doivent être différents.',
+  'quick.missingIncome': 'Montant de la paye manquant.',
+  'quick.noAmount': 'Je n\'ai pas trouvé de montant.',
+  'quick.debtHint': 'Précise le prêteur (« à … ») et ce qu\'il finance (« pour … »).',
+  'quick.whichPocket': 'De quelle poche vient cette dépense ?',
+  'quick.notUnderstood': 'Je n\'ai pas compris cette phrase.',
+  'quick.on': 'le {date}',
+  'quick.expense': 'Dépense de {amount} ({what}) depuis {pocket}',
+  'quick.balance': 'Solde de {name} : {before} → {after}',
+  'quick.debt': 'Emprunt de {amount} à {lender} pour financer {funded}',
+  'quick.paycheck': 'Paye de {amount} : ouvrir la répartition',
+
+  'expense.title': 'Dépense',
+  'expense.report': 'Rapport du mois',
+  'expense.leftIn': 'Reste dans {pocket} :',
+  'expense.lessDetails': 'Moins de détails',
+  'expense.moreDetails': 'Date, commerçant, note…',
+  'expense.category': 'Catégorie',
+  'expense.merchant': 'Commerçant',
+  'expense.note': 'Note',
+  'expense.spend': 'Dépenser {amount} de {pocket}',
+  'expense.add': 'Ajouter la dépense',
+
+  'categories.Courses': 'Courses',
+  'categories.Restaurant': 'Restaurant',
+  'categories.Transport': 'Transport',
+  'categories.Loisirs': 'Loisirs',
+  'categories.Shopping': 'Shopping',
+  'categories.Santé': 'Santé',
+  'categories.Maison': 'Maison',
+  'categories.Cadeaux': 'Cadeaux',
+  'categories.Autre': 'Autre',
+
+  'items.restore': 'Restaurer',
+  'items.archive': 'Archiver',
+  'items.sumOfPockets': 'Somme des poches',
+  'items.receivesPaycheck': 'Reçoit la paye',
+  'items.account': 'Compte : {name}',
+  'items.nonZero': 'Solde non nul : {amount}',
+  'items.available': 'Vrai dispo : {amount}',
+  'items.newPocket': 'Nouvelle poche',
+  'items.newAccount': 'Nouveau compte',
+
+  'goals.target': 'Objectif {symbol}',
+  'goals.for': 'Pour…',
+  'goals.goal': 'Objectif',
+  'goals.progress': '{percent}% de {target}',
+  'goals.reached': 'Objectif atteint',
+  'goals.monthlyNeeded': '{amount}/mois nécessaires',
+  'goals.onTrack': '{amount} prévus, en bonne voie',
+  'goals.behind': '{amount} prévus, en retard',
+
+  'paycheck.howMuch': 'Combien as-tu reçu ? ({symbol})',
+  'paycheck.example': 'Ex : 1500',
+  'paycheck.currentAvailable': 'Vrai dispo actuel {account}',
+  'paycheck.mainAccount': 'compte principal',
+  'paycheck.next': 'Prochaine paye',
+  'paycheck.fixedCharges': 'Charges fixes',
+  'paycheck.plannedRepayments': 'Remboursements prévus',
+  'paycheck.settles': 'solde',
+  'paycheck.bunker': 'Statut Bunker',
+  'paycheck.short': 'Manque {amount}',
+  'paycheck.covered': 'Couvert',
+
+  'splitter.title': 'Le Splitter',
+  'splitter.excess': 'Excédent à distribuer',
+  'splitter.preset': 'Préréglage…',
+  'splitter.deletePreset': 'Supprimer le préréglage',
+  'splitter.suggest': 'Suggérer pour les objectifs',
+  'splitter.suggestFeasible': 'Pourcentages ajustés pour tenir tous les objectifs.',
+  'splitter.suggestShort': 'Cette paye ne suffit pas à tenir tous les objectifs : pourcentages réduits au maximum possible.',
+  'splitter.min': 'Min {symbol}',
+  'splitter.cap': 'Plafond {symbol}',
+  'splitter.fixed': 'Montant fixe',
+  'splitter.share': 'Part du reste',
+  'splitter.capped': 'plafond atteint',
+  'splitter.minimum': 'minimum',
+  'splitter.addRule': 'Ajouter une règle',
+  'splitter.remainder': 'Reste et centimes',
+  'splitter.stayOn': 'Rester sur {account}',
+  'splitter.theAccount': 'le compte',
+  'splitter.presetName': 'Nom du préréglage (ex : Mois normal)',
+  'splitter.confirm': 'Valider la distribution',
+
+  'debts.title': 'Dettes & Transferts',
+  'debts.borrowedFrom': 'Emprunté à',
+  'debts.toFund': 'Pour financer',
+  'debts.amount': 'Montant ({symbol})',
+  'debts.note': 'Note (opt)',
+  'debts.noteExample': 'Ex : Cadeau',
+  'debts.perPaycheck': 'Rembourser à chaque paye (opt)',
+  'debts.perPaycheckExample': 'Ex : 50',
+  'debts.rate': 'Taux : 1 {from} = ? {to}',
+  'debts.receives': '{name} reçoit {amount}',
+  'debts.add': 'Ajouter la dette',
+  'debts.settledTitle': 'Dettes réglées',
+  'debts.openTitle': 'En cours',
+  'debts.showOpen': 'En cours ({count})',
+  'debts.showSettled': 'Réglées ({count})',
+  'debts.repayments': '{count} remboursement(s)',
+  'debts.none': 'Aucune dette en cours 🎉',
+  'debts.planShort': '{amount} par paye',
+  'debts.outOf': 'sur {amount}',
+  'debts.repayAll': 'Tout rembourser',
+  'debts.repaidAmount': 'Montant remboursé',
+  'debts.repay': 'Rembourser',
+  'debts.plan': 'Plan : à chaque paye',
+  'debts.fromPaycheck': 'paye',
+
+  'charges.monthly': 'Mensuel',
+  'charges.yearlyIn': 'Annuel ({month})',
+  'charges.everyMonths': 'Tous les {months} mois',
+  'charges.title': 'Charges Fixes',
+  'charges.perMonth': '/mois',
+  'charges.payday': 'Jour de paye',
+  'charges.name': 'Nom',
+  'charges.nameExample': 'Ex : Netflix',
+  'charges.day': 'Jour du débit',
+  'charges.account': 'Débité de',
+  'charges.frequency': 'Fréquence',
+  'charges.yearly': 'Annuel',
+  'charges.custom': 'Tous les N mois',
+  'charges.month': 'Mois du débit',
+  'charges.firstMonth': 'Premier débit',
+  'charges.everyLabel': 'Tous les (mois)',
+  'charges.add': 'Ajouter la charge',
+  'charges.none': 'Aucune charge fixe',
+  'charges.onDay': 'Le {day}',
+
+  'rates.noneFound': 'Aucun taux reconnu dans le fichier.',
+  'rates.missingBase': 'Le fichier ne donne pas de taux pour {currency}.',
+  'rates.title': 'Devises',
+  'rates.updated': 'Taux du {date}',
+  'rates.base': 'Devise de référence',
+  'rates.missing': 'Taux manquant pour {currencies} : ces montants sont comptés un pour un dans les totaux.',
+  'rates.addCurrency': '+ Devise',
+
+  'chart.30d': '30 j',
+  'chart.3m': '3 mois',
+  'chart.1y': '1 an',
+  'chart.all': 'Tout',
+  'chart.notEnough': 'Pas encore assez de relevés',
+  'chart.range': 'min {min} • max {max}',
+  'chart.title': 'Évolution',
+  'chart.netWorth': 'Patrimoine',
+  'chart.paydays': 'Pointillés : payes distribuées',
+  'chart.monthly': 'Mois par mois',
+
+  'history.title': 'Historique',
+  'history.undo': 'Annuler ({count})',
+  'history.redo': 'Rétablir ({count})',
+  'history.check': 'Vérification',
+  'history.drifts': '{count} écart(s)',
+  'history.consistent': 'Cohérent',
+  'history.drift': 'journal {journal} • actuel {current}',
+  'history.acceptDrift': 'Enregistrer les soldes actuels',
+  'history.empty': 'Aucune opération enregistrée',
+  'history.undoTo': 'Annuler jusqu\'ici',
+  'history.transactions': 'Opérations bancaires',
+
+  'journal.adjustment': 'Ajustement',
+  'journal.paycheck': 'Paye',
+  'journal.debt_created': 'Dette',
+  'journal.debt_repaid': 'Remboursement partiel',
+  'journal.debt_settled': 'Remboursement',
+  'journal.debt_updated': 'Plan de remboursement',
+  'journal.import': 'Relevé',
+  'journal.expense': 'Dépense',
+  'journal.undo': 'Annulation',
+  'journal.redo': 'Rétablissement',
+  'journal.undone': 'Annulé : {label}',
+  'journal.redone': 'Rétabli : {label}',
+  'journal.adjusted': '{name} ajusté',
+  'journal.expenseAdded': '{what} : {amount} ({pocket})',
+  'journal.expenseDeleted': 'Dépense supprimée : {what} ({pocket})',
+  'journal.debtCreated': 'Dette {debt}',
+  'journal.debtSettled': 'Dette {debt} réglée',
+  'journal.debtRepaid': 'Dette {debt} : {amount} remboursés',
+  'journal.debtPlan': 'Dette {debt} : {amount} par paye',
+  'journal.debtPlanRemoved': 'Dette {debt} : plan retiré',
+  'journal.driftRecorded': 'Écart enregistré',
+  'journal.paycheck.label': 'Paye de {amount} distribuée',
+
+  'backup.title': 'Sauvegarde',
+  'backup.export': 'Exporter',
+  'backup.notPersisted': 'Le navigateur n\'a pas garanti la conservation des données : il peut les effacer s\'il manque de place. Exporte une sauvegarde régulièrement.',
+  'backup.moreErrors': '… et {count} autre(s)',
+  'backup.preview': 'Aperçu de l\'import',
+  'backup.identical': 'Identique aux données actuelles',
+  'backup.summary': '{accounts} compte(s), {pockets} poche(s), {debts} dette(s), {entries} opération(s)',
+  'backup.merge': 'Fusionner',
+  'backup.replace': 'Remplacer',
+
+  'storage.title': 'Données illisibles',
+  'storage.body': 'Les données enregistrées sur cet appareil n\'ont pas pu être chargées. Rien n\'a été modifié : exporte-les ou restaure une sauvegarde.',
+  'storage.downloadRaw': 'Télécharger les données brutes',
+  'storage.confirmReset': 'Les données actuelles seront écrasées par un profil vide. Continuer ?',
+  'storage.reset': 'Réinitialiser',
+  'storage.startOver': 'Repartir de zéro',
+
+  'lock.subtitle': 'Données chiffrées sur cet appareil',
+  'lock.placeholder': 'PIN ou phrase secrète',
+  'lock.wrong': 'PIN incorrect.',
+  'lock.unlock': 'Déverrouiller',
+  'lock.forgotten': 'Un PIN oublié ne se récupère pas : les données chiffrées de cet appareil deviennent illisibles, et il faut restaurer une sauvegarde exportée.',
+  'lock.forgottenReset': 'Importer une sauvegarde ou repartir de zéro efface ces données chiffrées et retire le PIN.',
+  'lock.confirmReset': 'Les données chiffrées seront effacées et remplacées par un profil vide. Continuer ?',
+  'lock.forgot': 'PIN oublié ?',
+  'lock.tooShort': 'Le PIN doit faire au moins {count} caractères.',
+  'lock.mismatch': 'Les deux PIN ne correspondent pas.',
+  'lock.title': 'Verrouillage',
+  'lock.after': 'Verrouiller après',
+  'lock.lock': 'Verrouiller',
+  'lock.change': 'Changer',
+  'lock.remove': 'Retirer',
+  'lock.intro': 'Protège l\'app par un PIN ou une phrase secrète : les données sont chiffrées sur cet appareil et l\'app se verrouille après un temps d\'inactivité.',
+  'lock.setPin': 'Définir un PIN',
+  'lock.current': 'PIN actuel',
+  'lock.new': 'Nouveau PIN ou phrase secrète',
+  'lock.confirm': 'Confirmer',
+  'lock.passphraseHint': 'Une phrase secrète longue résiste mieux qu\'un PIN de 4 chiffres à qui copierait les données de l\'appareil.',
+  'lock.exportFirst': 'Exporte une sauvegarde avant.',
+  'lock.plaintext': 'Les données seront de nouveau enregistrées en clair sur cet appareil.',
+  'lock.removePin': 'Retirer le PIN',
+  'lock.changePin': 'Changer le PIN',
+  'lock.enable': 'Chiffrer et activer',
+  'lock.wrongCurrent': 'PIN actuel incorrect.',
+
+  'profiles.defaultName': 'Mon profil',
+  'profiles.recoveredName': 'Profil {index}',
+  'profiles.title': 'Profils',
+  'profiles.add': 'Ajouter un profil',
+  'profiles.language': 'Langue',
+  'profiles.confirmDelete': '« {name} » et toutes ses données seront supprimés de cet appareil. Continuer ?',
+
+  'onboarding.welcome': 'Crée ton profil : chaque personne du foyer peut avoir le sien, avec ses comptes, ses poches et sa langue.',
+  'onboarding.newProfile': 'Nouveau profil',
+  'onboarding.name': 'Nom',
+  'onboarding.currency': 'Devise',
+  'onboarding.create': 'Créer le profil',
+  'onboarding.fromSync': 'Le serveur de synchronisation a déjà les données de ce profil, venues d\'un autre appareil : elles seront récupérées plutôt que de partir d\'un modèle.',
+  'onboarding.join': 'Récupérer mes données',
+  'onboarding.fromBackup': 'Ou pars d\'une sauvegarde exportée :',
+
+  'templates.solo': 'Solo',
+  'templates.soloDescription': 'Un compte courant, et des poches pour le quotidien, les loisirs, les cadeaux et l\'épargne.',
+  'templates.household': 'Foyer',
+  'templates.householdDescription': 'Un compte joint, et des poches pour les courses, la maison, les vacances et l\'épargne.',
+  'templates.blank': 'Vide',
+  'templates.blankDescription': 'Un seul compte courant : tout le reste est à créer.',
+  'templates.currentAccount': 'Compte courant',
+  'templates.jointAccount': 'Compte joint',
+  'templates.pocketsAccount': 'Poches',
+  'templates.everyday': 'Quotidien',
+  'templates.fun': 'Loisirs',
+  'templates.gifts': 'Cadeaux',
+  'templates.savings': 'Épargne',
+  'templates.groceries': 'Courses',
+  'templates.home': 'Maison',
+  'templates.holidays': 'Vacances',
+
+  'import.label': 'Relevé {name} : {count} opération(s)',
+  'import.title': 'Relevé bancaire',
+  'import.account': 'Compte',
+  'import.chooseFile': 'Choisir un fichier CSV ou OFX',
+  'import.format': 'Format',
+  'import.custom': 'Personnalisé',
+  'import.delimiter': 'Séparateur',
+  'import.tab': 'Tab',
+  'import.dates': 'Dates',
+  'import.dmy': 'JJ/MM/AAAA',
+  'import.ymd': 'AAAA-MM-JJ',
+  'import.mdy': 'MM/JJ/AAAA',
+  'import.decimals': 'Décimales',
+  'import.date': 'Date',
+  'import.amount': 'Montant',
+  'import.description': 'Libellé',
+  'import.fee': 'Frais',
+  'import.balance': 'Solde',
+  'import.skipped': '{count} ligne(s) ignorée(s) : date ou montant illisible',
+  'import.reconcile': 'Rapprochement',
+  'import.statementBalance': 'Solde du relevé',
+  'import.unknown': 'Inconnu',
+  'import.appBalance': 'Solde {name} dans l\'app',
+  'import.fresh': 'Nouvelles opérations ({count})',
+  'import.difference': 'Écart',
+  'import.balanceUnknown': 'Solde du relevé inconnu',
+  'import.reconciled': 'Rapproché',
+  'import.unmatched': '{count} opération(s) non rapprochée(s) : ni charge fixe reconnue, ni poche choisie.',
+  'import.sumOfPockets': '{name} est la somme de ses poches : seules les opérations affectées à une poche modifient les soldes.',
+  'import.none': 'Aucune opération reconnue',
+  'import.duplicate': 'déjà importée',
+  'import.charge': 'Charge : {name}',
+  'import.noPocket': 'Aucune poche',
+  'import.apply': 'Mettre à jour les soldes',
+
+  'forecast.title': 'Prévisions',
+  'forecast.assumptions': 'Hypothèses',
+  'forecast.leaveWhatIf': 'Quitter la simulation',
+  'forecast.whatIf': 'Et si… ?',
+  'forecast.simulation': 'Simulation : rien n\'est enregistré.',
+  'forecast.income': 'Paye habituelle ({symbol})',
+  'forecast.day': 'Jour',
+  'forecast.average': 'Moyenne des dernières payes, à défaut de paye habituelle.',
+  'forecast.incomeChange': 'Variation des revenus',
+  'forecast.charges': 'Charges prises en compte',
+  'forecast.months': '{count} mois',
+  'forecast.noMainAccount': 'Aucun compte ne reçoit la paye',
+  'forecast.firstRisk': 'Premier mois à risque : {month}.',
+  'forecast.shortfall': '{name} manque {amount} pour couvrir les charges.',
+  'forecast.negative': 'Dans le rouge : {names}.',
+  'forecast.covered': 'Tout est couvert sur {count} mois.',
+  'forecast.chargesAmount': '-{amount} charges',
+  'forecast.debtsAmount': '-{amount} dettes',
+  'forecast.pockets': 'Poches {amount}',
+  'forecast.monthIncome': 'Paye de ce mois',
+
+  'spending.title': 'Dépenses',
+  'spending.overBudget': 'Budget dépassé : {names}.',
+  'spending.empty': 'Ni paye ni dépense ce mois-ci',
+  'spending.nothingAllocated': 'Rien reçu des payes ce mois-ci',
+  'spending.over': 'Dépassé de {amount}',
+  'spending.left': 'Reste {amount} sur ce qui a été alloué',
+  'spending.hide': 'Masquer',
+  'spending.count': '{count} dépense(s)',
+
+  'store.newerVersion': 'Données créées par une version plus récente de l\'application (v{version}).',
+  'store.noMigration': 'Aucune migration depuis la version {version}.',
+  'store.noData': 'Le document ne contient pas de données.',
+  'store.notAList': '« {key} » doit être une liste.',
+  'store.noId': 'entrée sans identifiant',
+  'store.entryError': '{key}[{index}] : {error}',
+  'store.missingName': 'nom manquant',
+  'store.invalidBalance': 'solde invalide',
+  'store.missingCurrency': 'devise manquante',
+  'store.invalidGoal': 'objectif invalide',
+  'store.missingAccounts': 'comptes manquants',
+  'store.invalidAmount': 'montant invalide',
+  'store.invalidStatus': 'statut invalide',
+  'store.missingRepayments': 'remboursements manquants',
+  'store.missingNameOrAccount': 'nom ou compte manquant',
+  'store.invalidAmountOrDay': 'montant ou jour invalide',
+  'store.invalidFrequency': 'fréquence invalide',
+  'store.incompleteEntry': 'opération incomplète',
+  'store.missingAccountOrDate': 'compte ou date manquant',
+  'store.missingPocketOrDate': 'poche ou date manquante',
+  'store.missingCategory': 'catégorie manquante',
+  'store.incompleteSnapshot': 'relevé de soldes incomplet',
+  'store.invalidField': '« {key} » invalide.',
+  'store.invalidRules': 'règles invalides',
+  'store.unknownDebtItem': 'Dette {id} : compte ou poche inconnu.',
+  'store.unknownChargeAccount': 'Charge « {name} » : compte inconnu.',
+  'store.noVersion': 'Document sans version ni données.',
+  'store.legacyUnreadable': 'Ancienne donnée « {key} » illisible.',
+  'store.readFailed': 'Lecture du stockage impossible : {error}',
+  'store.writeFailed': 'Écriture impossible',
+  'store.nothingToEncrypt': 'Aucune donnée à chiffrer.',
+  'store.nothingToSave': 'Aucune donnée à enregistrer.',
+
+  'diff.accounts': 'Comptes',
+  'diff.pockets': 'Poches',
+  'diff.debts': 'Dettes',
+  'diff.charges': 'Charges',
+  'diff.presets': 'Préréglages',
+  'diff.splitter': 'Splitter',
+  'diff.splitterRules': 'Règles de répartition',
+  'diff.forecast': 'Prévision',
+  'diff.expectedPaychecks': 'Payes prévues',
+  'diff.currencies': 'Devises',
+  'diff.rates': 'Taux de change (base {base})',
+  'diff.paycheck': 'Paye',
+  'diff.payday': 'Jour de paye : {before} → {after}',
+  'diff.journal': 'Historique',
+  'diff.transactions': 'Relevés',
+  'diff.expenses': 'Dépenses',
+  'diff.snapshots': 'Évolution',
+  'diff.operations': '{count} opération(s)',
+  'diff.expenseCount': '{count} dépense(s)',
+  'diff.days': '{count} jour(s)',
+};
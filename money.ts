@@ -0,0 +1,97 @@
+import { Exchange } from './types';
+import { localeTag, t } from './i18n';
+
+export const CURRENCIES = ['EUR', 'USD', 'GBP', 'CHF', 'JPY', 'CAD', 'AUD', 'SEK', 'NOK', 'DKK', 'PLN', 'CZK', 'HUF', 'RON', 'MAD', 'TRY', 'CNY', 'THB'];
+
+type Formatter = { format(value: number): string; formatToParts?(value: number): Intl.NumberFormatPart[] };
+
+const formatters = new Map<string, Formatter>();
+
+// Keyed by locale as well, since it follows the active profile.
+const formatter = (currency: string, digits: number) => {
+  const locale = localeTag();
+  const key = `${locale}:${currency}:${digits}`;
+  if (!formatters.has(key)) {
+    try {
+      formatters.set(key, new Intl.NumberFormat(locale, { style: 'currency', currency, minimumFractionDigits: digits, maximumFractionDigits: digits }));
+    } catch (error) {
+      // An unknown code still shows the amount, followed by the code.
+      const plain = new Intl.NumberFormat(locale, { minimumFractionDigits: digits, maximumFractionDigits: digits });
+      formatters.set(key, { format: (v: number) => `${plain.format(v)} ${currency}` });
+    }
+  }
+  return formatters.get(key)!;
+};
+
+// signed adds a + in front of positive amounts, for deltas.
+export function formatMoney(amount: number, currency: string, { digits = 2, signed = false } = {}) {
+  const text = formatter(currency, digits).format(amount);
+  return signed && amount > 0 ? `+${text}` : text;
+}
+
+export function currencySymbol(currency: string) {
+  return formatter(currency, 0).formatToParts?.(0).find(p => p.type === 'currency')?.value || currency;
+}
+
+// rates give the value of one unit of each currency in the base currency. A missing rate counts as 1, and is reported by missingRates.
+export const rateOf = (exchange: Exchange, currency: string) => currency === exchange.base ? 1 : exchange.rates[currency] ?? 1;
+
+export function convert(amount: number, from: string, to: string, exchange: Exchange) {
+  if (from === to) return amount;
+  return parseFloat(((amount * rateOf(exchange, from)) / rateOf(exchange, to)).toFixed(2));
+}
+
+// How much of `to` one unit of `from` is worth, with more precision than a converted amount.
+export const exchangeRate = (from: string, to: string, exchange: Exchange) =>
+  parseFloat((rateOf(exchange, from) / rateOf(exchange, to)).toPrecision(6));
+
+export const missingRates = (exchange: Exchange, currencies: string[]) =>
+  [...new Set(currencies)].filter(c => c !== exchange.base && !exchange.rates[c]);
+
+// Changing the base currency re-expresses every rate against the new base, so conversions don't change.
+export function rebase(exchange: Exchange, base: string): Exchange {
+  const pivot = rateOf(exchange, base);
+  const rates: Record<string, number> = {};
+  [exchange.base, ...Object.keys(exchange.rates)].forEach(c => {
+    if (c !== base) rates[c] = parseFloat((rateOf(exchange, c) / pivot).toPrecision(6));
+  });
+  return { ...exchange, base, rates };
+}
+
+const isCode = (v: string) => /^[A-Z]{3}$/.test(v);
+
+// Accepts { "USD": 0.92 }, { "base": "EUR", "rates": { ... } } or CSV lines "USD;0.92" (a header line is skipped),
+// each rate being the value of one unit of the currency in the file's base.
+// Rates expressed against another base are rebased onto the current one.
+export function parseRates(text: string, exchange: Exchange): { ok: true; exchange: Exchange } | { ok: false; error: string } {
+  let base = exchange.base;
+  const rates: Record<string, number> = {};
+  const trimmed = text.trim();
+  if (trimmed.startsWith('{')) {
+    let doc: any;
+    try {
+      doc = JSON.parse(trimmed);
+    } catch (error) {
+      return { ok: false, error: t('errors.invalidJson') };
+    }
+    if (typeof doc.base === 'string') base = doc.base.toUpperCase();
+    Object.entries(doc.rates ?? doc).forEach(([code, rate]) => {
+      if (isCode(code.toUpperCase()) && typeof rate === 'number' && rate > 0) rates[code.toUpperCase()] = rate;
+    });
+  } else {
+    trimmed.split(/\r?\n/).forEach(line => {
+      // A semicolon or a tab leaves the comma free for decimals.
+      const delimiter = line.includes(';') ? ';' : line.includes('\t') ? '\t' : ',';
+      const [code, rate] = line.split(delimiter).map(cell => cell.trim().replace(/"/g, ''));
+      const value = parseFloat((rate || '').replace(',', '.'));
+      if (isCode((code || '').toUpperCase()) && value > 0) rates[code.toUpperCase()] = value;
+    });
+  }
+  if (!Object.keys(rates).length) return { ok: false, error: t('rates.noneFound') };
+  const pivot = base === exchange.base ? 1 : rates[exchange.base];
+  if (!pivot) return { ok: false, error: t('rates.missingBase', { currency: exchange.base }) };
+  const imported = Object.entries({ ...rates, [base]: 1 })
+    .filter(([code]) => code !== exchange.base)
+    .map(([code, rate]) => [code, parseFloat((rate / pivot).toPrecision(6))]);
+  return { ok: true, exchange: { ...exchange, rates: { ...exchange.rates, ...Object.fromEntries(imported) }, updatedAt: new Date().toISOString() } };
+}
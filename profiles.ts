@@ -0,0 +1,80 @@
+import { Locale, isLocale, t } from './i18n';
+
+// Several people can keep their books on the same device. The registry lists the profiles; each one's document,
+// vault and sync bookkeeping live under their own keys, so profiles never see each other's data.
+export type Profile = { id: string; name: string; locale: Locale };
+export type Profiles = { active: string; profiles: Profile[] };
+
+const PROFILES_KEY = 'accountant_profiles';
+export const DEFAULT_PROFILE = 'default';
+
+export type StorageKind = 'store' | 'vault' | 'sync';
+
+export const storageKey = (profileId: string, kind: StorageKind) => `accountant_${kind}_${profileId}`;
+
+// The single-user app kept everything under hugo_ keys. They become the default profile's; the older one-key-per-
+// collection layout is left for the store to migrate.
+const SINGLE_USER_KEYS: Record<StorageKind, string> = { store: 'hugo_store', vault: 'hugo_vault', sync: 'hugo_sync' };
+const SINGLE_USER_PREFIX = 'hugo_';
+
+const isProfile = (v: any): v is Profile =>
+  typeof v === 'object' && v !== null && typeof v.id === 'string' && /^[\w-]+$/.test(v.id) && typeof v.name === 'string' && isLocale(v.locale);
+
+const isProfiles = (v: any): v is Profiles =>
+  typeof v === 'object' && v !== null && Array.isArray(v.profiles) && v.profiles.length > 0 && v.profiles.every(isProfile)
+  && v.profiles.some((p: Profile) => p.id === v.active);
+
+const storedKeys = () => Array.from({ length: window.localStorage.length }, (_, i) => window.localStorage.key(i)!);
+
+// Without a readable registry, the profiles are rebuilt from the data on the device: the single-user data becomes
+// the default profile, and any profile data left without an entry gets one back.
+function recoverProfiles(): Profiles | null {
+  const keys = storedKeys();
+  if (keys.some(key => key.startsWith(SINGLE_USER_PREFIX))) {
+    (Object.keys(SINGLE_USER_KEYS) as StorageKind[]).forEach(kind => {
+      const value = window.localStorage.getItem(SINGLE_USER_KEYS[kind]);
+      if (value === null) return;
+      window.localStorage.setItem(storageKey(DEFAULT_PROFILE, kind), value);
+      window.localStorage.removeItem(SINGLE_USER_KEYS[kind]);
+    });
+    keys.push(storageKey(DEFAULT_PROFILE, 'store'));
+  }
+  const ids = [...new Set(keys.map(key => /^accountant_(?:store|vault)_([\w-]+)$/.exec(key)?.[1]).filter((id): id is string => !!id))];
+  if (!ids.length) return null;
+  ids.sort((a, b) => Number(b === DEFAULT_PROFILE) - Number(a === DEFAULT_PROFILE));
+  const profiles = ids.map((id, i): Profile => ({
+    id,
+    name: id === DEFAULT_PROFILE ? t('profiles.defaultName') : t('profiles.recoveredName', { index: i + 1 }),
+    locale: 'fr',
+  }));
+  return { active: profiles[0].id, profiles };
+}
+
+// null on the first run, when onboarding builds the first profile.
+export function loadProfiles(): Profiles | null {
+  try {
+    const raw = window.localStorage.getItem(PROFILES_KEY);
+    const profiles = raw && JSON.parse(raw);
+    if (isProfiles(profiles)) return profiles;
+  } catch (error) {}
+  try {
+    const recovered = recoverProfiles();
+    if (recovered) saveProfiles(recovered);
+    return recovered;
+  } catch (error) {
+    return null;
+  }
+}
+
+export function saveProfiles(profiles: Profiles): string | null {
+  try {
+    window.localStorage.setItem(PROFILES_KEY, JSON.stringify(profiles));
+    return null;
+  } catch (error) {
+    return (error as Error).message || t('store.writeFailed');
+  }
+}
+
+export function removeProfileData(profileId: string) {
+  (['store', 'vault', 'sync'] as const).forEach(kind => window.localStorage.removeItem(storageKey(profileId, kind)));
+}
@@ -0,0 +1,52 @@
+/// <reference types="vite/client" />
+import { useEffect, useState } from 'react';
+
+// sw.js only exists in production builds (see vite.config.ts). A new build waits in the background until
+// applyUpdate() lets it take over, then the page reloads on it.
+export function useServiceWorker() {
+  const [waiting, setWaiting] = useState<ServiceWorker | null>(null);
+
+  useEffect(() => {
+    if (!import.meta.env.PROD || !('serviceWorker' in navigator)) return;
+    const sw = navigator.serviceWorker;
+    // The first install also takes control of the page, which must not reload it.
+    const updating = !!sw.controller;
+    const onControllerChange = () => { if (updating) window.location.reload(); };
+    sw.addEventListener('controllerchange', onControllerChange);
+
+    let timer: number | undefined;
+    // If registration fails the app still runs, only not offline.
+    sw.register('./sw.js').then(registration => {
+      if (registration.waiting && sw.controller) setWaiting(registration.waiting);
+      registration.addEventListener('updatefound', () => {
+        const worker = registration.installing;
+        worker?.addEventListener('statechange', () => {
+          if (worker.state === 'installed' && sw.controller) setWaiting(worker);
+        });
+      });
+      timer = window.setInterval(() => registration.update().catch(() => {}), 60 * 60 * 1000);
+    }).catch(() => {});
+
+    return () => {
+      clearInterval(timer);
+      sw.removeEventListener('controllerchange', onControllerChange);
+    };
+  }, []);
+
+  return { updateReady: !!waiting, applyUpdate: () => waiting?.postMessage('skipWaiting') };
+}
+
+// Asks the browser not to evict the saved data under storage pressure. null while unknown or where the API doesn't exist.
+export function usePersistentStorage() {
+  const [persisted, setPersisted] = useState<boolean | null>(null);
+
+  useEffect(() => {
+    if (!navigator.storage?.persist) return;
+    navigator.storage.persisted()
+      .then(already => already || navigator.storage.persist())
+      .then(setPersisted)
+      .catch(() => setPersisted(false));
+  }, []);
+
+  return persisted;
+}
@@ -0,0 +1,51 @@
+// Offline checks of the rule-based quick entry parser: `npm test`. Each line gives a sentence and the fields the
+// action must have, or null when the sentence must be refused.
+import { Item } from './types';
+import { ParseContext, QuickAction, ruleParser } from './quickEntry';
+
+const item = (id: string, name: string, extra: Partial<Item> = {}): Item => ({ id, name, balance: 100, currency: 'EUR', ...extra });
+
+const context: ParseContext = {
+  accounts: [item('bnp', 'BNP', { receivesPaycheck: true }), item('revolut', 'Revolut', { sumOfPockets: true })],
+  pockets: [
+    item('life', 'Life', { accountId: 'revolut' }),
+    item('fun', 'Plaisirs', { accountId: 'revolut' }),
+    item('savings', 'Épargne', { accountId: 'revolut' }),
+    item('gifts', 'Cadeaux', { accountId: 'revolut' }),
+  ],
+  categories: ['Courses', 'Restaurant'],
+  today: new Date(2024, 2, 15),
+};
+
+export const CASES: [string, Partial<QuickAction> | null][] = [
+  ['20€ resto depuis Plaisirs', { kind: 'expense', pocketId: 'fun', amount: 20, category: 'Restaurant', date: '2024-03-15' }],
+  ["j'ai emprunté 50 à Épargne pour Cadeaux", { kind: 'debt', borrowFrom: 'savings', toFund: 'gifts', amount: 50 }],
+  ['emprunté 50 à Revolut pour Cadeaux', null],
+  ["j'ai payé 20€ chez Carrefour depuis Life", { kind: 'expense', pocketId: 'life', amount: 20, category: 'Courses', merchant: 'Carrefour' }],
+  ['payé 12 au resto depuis Plaisirs hier', { kind: 'expense', pocketId: 'fun', amount: 12, category: 'Restaurant', date: '2024-03-14' }],
+  ["j'ai paye 8 depuis Life", { kind: 'expense', pocketId: 'life', amount: 8 }],
+  ['acheté 2 pizzas 15€ depuis Plaisirs', { kind: 'expense', pocketId: 'fun', amount: 15 }],
+  ['1 500€ salaire', { kind: 'paycheck', income: 1500 }],
+  ['ma paye 2 100,50 €', { kind: 'paycheck', income: 2100.5 }],
+  ['paie de 1.500,00', { kind: 'paycheck', income: 1500 }],
+  ['paycheck 1,500.00', { kind: 'paycheck', income: 1500 }],
+  ['solde BNP 1200', { kind: 'balance', collection: 'accounts', itemId: 'bnp', mode: 'set', amount: 1200 }],
+  ['retire 30 de Life', { kind: 'balance', collection: 'pockets', itemId: 'life', mode: 'add', amount: -30 }],
+  ['12.50 lunch from Life', { kind: 'expense', pocketId: 'life', amount: 12.5, category: 'Restaurant' }],
+  ['resto depuis Plaisirs', null],
+];
+
+const matches = (action: QuickAction, expected: Partial<QuickAction>) =>
+  Object.entries(expected).every(([key, value]) => (action as Record<string, unknown>)[key] === value);
+
+let failures = 0;
+for (const [text, expected] of CASES) {
+  const result = await ruleParser.parse(text, context);
+  const ok = expected === null ? !result.ok : result.ok && matches(result.action, expected);
+  if (!ok) {
+    failures++;
+    console.error(`✗ ${text}\n  expected ${JSON.stringify(expected)}\n  got      ${JSON.stringify(result)}`);
+  }
+}
+console.log(`${CASES.length - failures}/${CASES.length} quick entry checks passed`);
+if (failures) process.exitCode = 1;
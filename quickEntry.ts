@@ -0,0 +1,263 @@
+import { Collection, Item } from './types';
+import { toDateInput } from './calendar';
+import { CURRENCIES, formatMoney } from './money';
+import { categoryLabel } from './envelopes';
+import { formatDate, t } from './i18n';
+
+// Amounts are in the currency of the item they apply to. A balance is either set to the amount or moved by it.
+export type QuickAction =
+  | { kind: 'balance'; collection: Collection; itemId: string; mode: 'set' | 'add'; amount: number }
+  | { kind: 'expense'; pocketId: string; amount: number; category: string; date: string; merchant?: string; note?: string }
+  | { kind: 'debt'; borrowFrom: string; toFund: string; amount: number; note: string }
+  | { kind: 'paycheck'; income: number };
+
+// defaultPocketId is used for an expense that names no pocket.
+export type ParseContext = { accounts: Item[]; pockets: Item[]; categories: string[]; defaultPocketId?: string; today?: Date };
+
+export type ParseResult = { ok: true; action: QuickAction; source: string } | { ok: false; error: string };
+
+export type QuickEntryParser = { name: string; parse: (text: string, context: ParseContext) => Promise<ParseResult> };
+
+const round = (v: number) => parseFloat(v.toFixed(2));
+
+// Lowercase without accents or apostrophes, keeping the length of the text so positions still match the original.
+const normalize = (text: string) => text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().replace(/[’']/g, ' ');
+
+const active = (context: ParseContext) => [
+  ...context.accounts.filter(a => !a.archived).map(item => ({ item, collection: 'accounts' as Collection })),
+  ...context.pockets.filter(p => !p.archived).map(item => ({ item, collection: 'pockets' as Collection })),
+];
+
+// Checks that an action only refers to existing items and positive amounts, whichever parser produced it.
+export function checkAction(action: QuickAction, context: ParseContext, source: string): ParseResult {
+  const find = (id: string) => active(context).find(i => i.item.id === id);
+  const fail = (error: string): ParseResult => ({ ok: false, error });
+  if (action.kind === 'balance') {
+    const target = find(action.itemId);
+    if (!target || target.collection !== action.collection) return fail(t('quick.itemNotFound'));
+    if (target.item.sumOfPockets) return fail(t('quick.sumOfPockets', { name: target.item.name }));
+    if (action.mode === 'add' && !action.amount) return fail(t('quick.missingAmount'));
+  } else if (action.kind === 'expense') {
+    if (find(action.pocketId)?.collection !== 'pockets') return fail(t('quick.pocketNotFound'));
+    if (!(action.amount > 0)) return fail(t('quick.missingAmount'));
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(action.date)) return fail(t('quick.invalidDate'));
+  } else if (action.kind === 'debt') {
+    const lender = find(action.borrowFrom);
+    const funded = find(action.toFund);
+    if (!lender || !funded) return fail(t('quick.missingDebtItems'));
+    if (action.borrowFrom === action.toFund) return fail(t('quick.sameDebtItems'));
+    // Its stored balance counts for nothing, so the money would vanish from the totals.
+    const pooled = [lender, funded].find(i => i.item.sumOfPockets);
+    if (pooled) return fail(t('quick.sumOfPockets', { name: pooled.item.name }));
+    if (!(action.amount > 0)) return fail(t('quick.missingAmount'));
+  } else if (!(action.income > 0)) {
+    return fail(t('quick.missingIncome'));
+  }
+  return { ok: true, action, source };
+}
+
+// French words first, then the English ones.
+const CATEGORY_KEYWORDS: Record<string, string[]> = {
+  Courses: ['courses', 'supermarche', 'epicerie', 'carrefour', 'leclerc', 'lidl', 'auchan', 'monoprix', 'franprix', 'intermarche', 'groceries', 'supermarket', 'tesco'],
+  Restaurant: ['resto', 'restaurant', 'dej', 'dejeuner', 'diner', 'brunch', 'kebab', 'pizza', 'mcdo', 'burger', 'sushi', 'cafe', 'lunch', 'dinner', 'takeaway'],
+  Transport: ['essence', 'carburant', 'uber', 'taxi', 'train', 'sncf', 'metro', 'navigo', 'bus', 'parking', 'peage', 'fuel', 'petrol', 'gas', 'tube'],
+  Loisirs: ['cine', 'cinema', 'concert', 'sortie', 'jeu', 'musee', 'bowling', 'movie', 'game', 'museum'],
+  Shopping: ['vetements', 'habits', 'chaussures', 'amazon', 'zara', 'shopping', 'clothes', 'shoes'],
+  Santé: ['pharmacie', 'medecin', 'docteur', 'dentiste', 'ophtalmo', 'pharmacy', 'doctor', 'dentist'],
+  Maison: ['meuble', 'ikea', 'bricolage', 'deco', 'menage', 'furniture', 'cleaning'],
+  Cadeaux: ['cadeau', 'anniversaire', 'anniv', 'gift', 'present', 'birthday'],
+};
+
+const LENDER_WORDS = ['a', 'au', 'de', 'du', 'sur', 'chez', 'depuis', 'from'];
+const POCKET_WORDS = ['depuis', 'de', 'du', 'sur', 'dans', 'avec', 'from', 'on', 'in', 'with'];
+const FUNDED_WORDS = ['pour', 'for'];
+
+const hasWord = (text: string, words: RegExp) => words.test(text);
+const escape = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+const wordBefore = (text: string, index: number) => text.slice(0, index).trim().split(/\s+/).pop() || '';
+
+// A number may group its thousands with spaces, dots or commas ("1 500", "1.500,00", "1,500.00"); the other mark
+// is the decimal one.
+const NUMBER = /([+-]?)\s*(\d{1,3}([ .,\u00a0\u202f])\d{3}(?:\3\d{3})*(?:[.,]\d{1,2})?(?!\d)|\d+(?:[.,]\d{1,2})?)/g;
+const CURRENCY_AFTER = new RegExp(`^\\s*(?:[€$£]|(?:${CURRENCIES.join('|').toLowerCase()}|euros?)\\b)`);
+const CURRENCY_BEFORE = /[€$£]\s*$/;
+
+// The amount is the number written with a currency, otherwise the first one: "2 pizzas 15€" cost 15.
+function findAmount(text: string) {
+  const numbers = [...text.matchAll(NUMBER)];
+  const match = numbers.find(m => CURRENCY_AFTER.test(text.slice(m.index! + m[0].length)) || CURRENCY_BEFORE.test(text.slice(0, m.index)))
+    || numbers[0];
+  if (!match) return null;
+  const digits = match[3] ? match[2].split(match[3]).join('') : match[2];
+  return { amount: round(parseFloat(digits.replace(',', '.'))), sign: match[1] };
+}
+
+const PAYCHECK_WORDS = /\b(paye|paie|salaire|paycheck|salary)\b/g;
+const SUBJECTS = ['j', 'je', 'tu', 'il', 'elle', 'on', 'ai', 'as', 'a'];
+
+// "paye" and "paie" are also the verb: "j'ai payé 20€" is an expense. The accent is looked for in the original text,
+// which has the same length as the normalized one.
+const isPaycheck = (rest: string, original: string) => [...rest.matchAll(PAYCHECK_WORDS)].some(m =>
+  !['paye', 'paie'].includes(m[1]) || (!/[éÉ]/.test(original.slice(m.index, m.index! + m[1].length)) && !SUBJECTS.includes(wordBefore(rest, m.index!))));
+
+// Deterministic rules over the text: no network, same answer every time. Item names are matched longest first,
+// then removed from the text so a pocket called "Cadeaux" is not also read as a category.
+export const ruleParser: QuickEntryParser = {
+  name: 'local',
+  parse: async (text, context) => {
+    const original = text.normalize('NFC');
+    let rest = normalize(original);
+    const found: { item: Item; collection: Collection; index: number; before: string }[] = [];
+    [...active(context)].sort((a, b) => b.item.name.length - a.item.name.length).forEach(({ item, collection }) => {
+      const name = normalize(item.name).trim();
+      if (!name) return;
+      const match = new RegExp(`(^|[^a-z0-9])${escape(name)}(?=$|[^a-z0-9])`).exec(rest);
+      if (!match) return;
+      const index = match.index + match[1].length;
+      const before = wordBefore(rest, index);
+      found.push({ item, collection, index, before });
+      rest = rest.slice(0, index) + ' '.repeat(name.length) + rest.slice(index + name.length);
+    });
+    found.sort((a, b) => a.index - b.index);
+
+    const parsed = findAmount(rest);
+    if (!parsed) return { ok: false, error: t('quick.noAmount') };
+    const { amount } = parsed;
+    const sign = parsed.sign === '-' ? -1 : 1;
+
+    if (isPaycheck(rest, original)) return checkAction({ kind: 'paycheck', income: amount }, context, 'local');
+
+    if (hasWord(rest, /\b(emprunt\w*|prete?\w*|pret|avance\w*|dette|borrow\w*|lend\w*|loan|debt)\b/)) {
+      const toFund = found.find(f => FUNDED_WORDS.includes(f.before));
+      const lender = found.find(f => f !== toFund && LENDER_WORDS.includes(f.before)) || found.find(f => f !== toFund);
+      if (!toFund || !lender) return { ok: false, error: t('quick.debtHint') };
+      return checkAction({ kind: 'debt', borrowFrom: lender.item.id, toFund: toFund.item.id, amount, note: '' }, context, 'local');
+    }
+
+    const setting = hasWord(rest, /\b(solde|ajuste\w*|corrige\w*|balance|set)\b/) || rest.includes('=');
+    const moving = hasWord(rest, /\b(ajoute\w*|depose\w*|verse\w*|retire\w*|enleve\w*|add\w*|deposit\w*|withdr\w*|remove\w*)\b/) || (parsed.sign === '+' && !setting);
+    if ((setting || moving) && found.length) {
+      const target = found[0];
+      const withdrawn = hasWord(rest, /\b(retire\w*|enleve\w*|withdr\w*|remove\w*)\b/) ? -1 : sign;
+      return checkAction({ kind: 'balance', collection: target.collection, itemId: target.item.id, mode: setting ? 'set' : 'add', amount: setting ? amount * sign : amount * withdrawn }, context, 'local');
+    }
+
+    const pockets = found.filter(f => f.collection === 'pockets');
+    const pocketId = (pockets.find(f => POCKET_WORDS.includes(f.before)) || pockets[0])?.item.id || context.defaultPocketId;
+    if (!pocketId) return { ok: false, error: t('quick.whichPocket') };
+    const category = context.categories.find(c => [c, categoryLabel(c)].some(name => new RegExp(`\\b${escape(normalize(name))}\\b`).test(rest)))
+      || Object.entries(CATEGORY_KEYWORDS).find(([c, words]) => context.categories.includes(c) && words.some(w => new RegExp(`\\b${w}\\b`).test(rest)))?.[0]
+      || 'Autre';
+    const merchantMatch = /\b(?:chez|at)\s+(.+?)(?=\s+(?:depuis|de|du|sur|dans|avec|pour|hier|from|on|in|with|for|yesterday)\b|$)/.exec(rest);
+    const merchant = merchantMatch ? original.slice(merchantMatch.index + merchantMatch[0].length - merchantMatch[1].length, merchantMatch.index + merchantMatch[0].length).trim() : '';
+    const today = context.today || new Date();
+    const days = hasWord(rest, /\bavant-hier\b/) ? 2 : hasWord(rest, /\b(hier|yesterday)\b/) ? 1 : 0;
+    const date = toDateInput(new Date(today.getFullYear(), today.getMonth(), today.getDate() - days));
+    return checkAction({ kind: 'expense', pocketId, amount, category, date, ...(merchant ? { merchant } : {}) }, context, 'local');
+  },
+};
+
+export const GEMINI_MODEL = 'gemini-2.5-flash';
+
+const instructions = (context: ParseContext) => `Tu transformes une phrase d'un utilisateur d'une application de budget en une action JSON.
+Actions possibles :
+- "expense" : une dépense payée depuis une poche (pocketId, amount, category, date, merchant, note).
+- "balance" : corriger le solde d'un compte ou d'une poche (itemId ; mode "set" pour fixer le solde, "add" pour ajouter ou retirer un montant, négatif pour un retrait).
+- "debt" : un emprunt d'un compte ou d'une poche (borrowFrom) pour en financer un autre (toFund), avec amount et note.
+- "paycheck" : une paye reçue (income).
+- "unknown" si la phrase ne correspond à rien.
+Comptes : ${JSON.stringify(context.accounts.filter(a => !a.archived).map(a => ({ id: a.id, name: a.name, currency: a.currency })))}
+Poches : ${JSON.stringify(context.pockets.filter(p => !p.archived).map(p => ({ id: p.id, name: p.name, currency: p.currency })))}
+Catégories de dépenses : ${JSON.stringify(context.categories)}
+Poche par défaut d'une dépense : ${context.defaultPocketId || 'aucune'}
+Aujourd'hui : ${toDateInput(context.today || new Date())}. Les dates sont au format AAAA-MM-JJ. N'invente pas d'identifiant.`;
+
+// The SDK is only loaded the first time the remote parser is used.
+export const geminiParser = (apiKey: string): QuickEntryParser => ({
+  name: 'gemini',
+  parse: async (text, context) => {
+    const { GoogleGenAI, Type } = await import('@google/genai');
+    const ai = new GoogleGenAI({ apiKey });
+    const response = await ai.models.generateContent({
+      model: GEMINI_MODEL,
+      contents: text,
+      config: {
+        systemInstruction: instructions(context),
+        responseMimeType: 'application/json',
+        responseSchema: {
+          type: Type.OBJECT,
+          properties: {
+            kind: { type: Type.STRING, enum: ['expense', 'balance', 'debt', 'paycheck', 'unknown'] },
+            amount: { type: Type.NUMBER },
+            income: { type: Type.NUMBER },
+            itemId: { type: Type.STRING },
+            mode: { type: Type.STRING, enum: ['set', 'add'] },
+            pocketId: { type: Type.STRING },
+            category: { type: Type.STRING },
+            date: { type: Type.STRING },
+            merchant: { type: Type.STRING },
+            note: { type: Type.STRING },
+            borrowFrom: { type: Type.STRING },
+            toFund: { type: Type.STRING },
+          },
+          required: ['kind'],
+        },
+      },
+    });
+    const raw = JSON.parse(response.text || '{}');
+    const amount = round(Number(raw.amount) || 0);
+    const today = toDateInput(context.today || new Date());
+    if (raw.kind === 'expense') {
+      return checkAction({
+        kind: 'expense', pocketId: raw.pocketId || context.defaultPocketId || '', amount: Math.abs(amount), category: raw.category || 'Autre', date: raw.date || today,
+        ...(raw.merchant ? { merchant: String(raw.merchant) } : {}),
+        ...(raw.note ? { note: String(raw.note) } : {}),
+      }, context, 'gemini');
+    }
+    if (raw.kind === 'balance') {
+      const collection = context.accounts.some(a => a.id === raw.itemId) ? 'accounts' : 'pockets';
+      return checkAction({ kind: 'balance', collection, itemId: raw.itemId || '', mode: raw.mode === 'set' ? 'set' : 'add', amount }, context, 'gemini');
+    }
+    if (raw.kind === 'debt') return checkAction({ kind: 'debt', borrowFrom: raw.borrowFrom || '', toFund: raw.toFund || '', amount: Math.abs(amount), note: raw.note || '' }, context, 'gemini');
+    if (raw.kind === 'paycheck') return checkAction({ kind: 'paycheck', income: round(Number(raw.income) || amount) }, context, 'gemini');
+    return { ok: false, error: t('quick.notUnderstood') };
+  },
+});
+
+// The first parser is tried first; when it fails or throws (network, quota, unreadable answer) the second one answers.
+// The result's source tells the UI which one did.
+export const withFallback = (primary: QuickEntryParser, fallback: QuickEntryParser): QuickEntryParser => ({
+  name: primary.name,
+  parse: async (text, context) => {
+    try {
+      const result = await primary.parse(text, context);
+      if (result.ok) return result;
+    } catch (error) {}
+    return fallback.parse(text, context);
+  },
+});
+
+// Without a key or a network, only the local rules are used.
+export function quickEntryParser(apiKey = process.env.GEMINI_API_KEY, online = typeof navigator === 'undefined' || navigator.onLine) {
+  return apiKey && online ? withFallback(geminiParser(apiKey), ruleParser) : ruleParser;
+}
+
+export function describeAction(action: QuickAction, context: ParseContext) {
+  const item = (id: string) => [...context.accounts, ...context.pockets].find(i => i.id === id)!;
+  if (action.kind === 'expense') {
+    const pocket = item(action.pocketId);
+    const when = action.date === toDateInput(context.today || new Date()) ? '' : ` ${t('quick.on', { date: formatDate(action.date, { day: '2-digit', month: '2-digit' }) })}`;
+    const what = categoryLabel(action.category) + (action.merchant ? `, ${action.merchant}` : '');
+    return t('quick.expense', { amount: formatMoney(action.amount, pocket.currency), what, pocket: pocket.name }) + when;
+  }
+  if (action.kind === 'balance') {
+    const target = item(action.itemId);
+    const after = action.mode === 'set' ? action.amount : round(target.balance + action.amount);
+    return t('quick.balance', { name: target.name, before: formatMoney(target.balance, target.currency), after: formatMoney(after, target.currency) });
+  }
+  if (action.kind === 'debt') {
+    return t('quick.debt', { amount: formatMoney(action.amount, item(action.borrowFrom).currency), lender: item(action.borrowFrom).name, funded: item(action.toFund).name });
+  }
+  const main = context.accounts.find(a => a.receivesPaycheck && !a.archived);
+  return t('quick.paycheck', { amount: main ? formatMoney(action.income, main.currency) : action.income });
+}
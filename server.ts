@@ -0,0 +1,169 @@
+import express from 'express';
+import Database from 'better-sqlite3';
+import dotenv from 'dotenv';
+import fs from 'fs';
+import path from 'path';
+import { compareVersions, isSyncChange, SyncChange, SyncResponse } from './sync';
+
+dotenv.config();
+
+const PORT = Number(process.env.PORT) || 3001;
+// There is no authentication, so only this machine can reach the server unless HOST says otherwise.
+const HOST = process.env.HOST || '127.0.0.1';
+const db = new Database(process.env.DB_PATH || 'accountant.db');
+db.pragma('journal_mode = WAL');
+
+// Records used to be shared by the whole server. They now belong to a profile, and the older ones to the default
+// profile, which is where the app puts the data it had before profiles.
+const DEFAULT_PROFILE = 'default';
+const shared = db.prepare<[], { name: string }>('PRAGMA table_info(records)').all();
+const upgrade = shared.length > 0 && !shared.some(column => column.name === 'profile');
+
+db.transaction(() => {
+  if (upgrade) db.exec('DROP INDEX IF EXISTS records_seq; ALTER TABLE records RENAME TO records_shared;');
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS records (
+      profile TEXT NOT NULL DEFAULT '${DEFAULT_PROFILE}',
+      collection TEXT NOT NULL,
+      id TEXT NOT NULL,
+      data TEXT,
+      updated_at TEXT NOT NULL,
+      device_id TEXT NOT NULL,
+      deleted INTEGER NOT NULL DEFAULT 0,
+      seq INTEGER NOT NULL,
+      PRIMARY KEY (profile, collection, id)
+    );
+    CREATE INDEX IF NOT EXISTS records_seq ON records (profile, seq);
+  `);
+  if (upgrade) {
+    db.exec(`
+      INSERT INTO records (profile, collection, id, data, updated_at, device_id, deleted, seq)
+        SELECT '${DEFAULT_PROFILE}', collection, id, data, updated_at, device_id, deleted, seq FROM records_shared;
+      DROP TABLE records_shared;
+    `);
+  }
+})();
+
+type Row = { profile: string; collection: string; id: string; data: string | null; updated_at: string; device_id: string; deleted: number; seq: number };
+
+// seq is shared by all profiles, so it only ever grows; each profile's cursor is the highest seq among its records.
+const selectOne = db.prepare<[string, string, string], Row>('SELECT * FROM records WHERE profile = ? AND collection = ? AND id = ?');
+const selectSince = db.prepare<[string, number], Row>('SELECT * FROM records WHERE profile = ? AND seq > ? ORDER BY seq');
+const selectCollection = db.prepare<[string, string], Row>('SELECT * FROM records WHERE profile = ? AND collection = ? AND deleted = 0 ORDER BY seq');
+const selectMaxSeq = db.prepare<[], { seq: number }>('SELECT COALESCE(MAX(seq), 0) AS seq FROM records');
+const selectCursor = db.prepare<[string], { seq: number }>('SELECT COALESCE(MAX(seq), 0) AS seq FROM records WHERE profile = ?');
+const upsert = db.prepare(`
+  INSERT INTO records (profile, collection, id, data, updated_at, device_id, deleted, seq)
+  VALUES (@profile, @collection, @id, @data, @updatedAt, @deviceId, @deleted, @seq)
+  ON CONFLICT (profile, collection, id) DO UPDATE SET
+    data = excluded.data, updated_at = excluded.updated_at, device_id = excluded.device_id, deleted = excluded.deleted, seq = excluded.seq
+`);
+
+const toChange = (row: Row): SyncChange => ({
+  collection: row.collection,
+  id: row.id,
+  data: row.data === null ? null : JSON.parse(row.data),
+  updatedAt: row.updated_at,
+  deviceId: row.device_id,
+  deleted: !!row.deleted,
+});
+
+// Stores the change only if it beats the stored version. Returns whether it won.
+const applyChange = db.transaction((profile: string, change: SyncChange) => {
+  const current = selectOne.get(profile, change.collection, change.id);
+  if (current && compareVersions(toChange(current), change) >= 0) return false;
+  upsert.run({
+    profile,
+    collection: change.collection,
+    id: change.id,
+    data: change.deleted ? null : JSON.stringify(change.data),
+    updatedAt: change.updatedAt,
+    deviceId: change.deviceId,
+    deleted: change.deleted ? 1 : 0,
+    seq: selectMaxSeq.get()!.seq + 1,
+  });
+  return true;
+});
+
+const app = express();
+app.use(express.json({ limit: '10mb' }));
+
+app.param('collection', (req, res, next, value) => {
+  if (/^[a-zA-Z]+$/.test(value)) next();
+  else res.status(404).json({ error: 'Unknown collection' });
+});
+
+// Every route works on one profile, given as ?profile=; without it, the default one.
+app.use('/api', (req, res, next) => {
+  const profile = req.query.profile ?? DEFAULT_PROFILE;
+  if (typeof profile === 'string' && /^[\w-]+$/.test(profile)) {
+    res.locals.profile = profile;
+    next();
+  } else {
+    res.status(400).json({ error: 'Invalid profile' });
+  }
+});
+
+app.get('/api/health', (req, res) => {
+  res.json({ ok: true, cursor: selectCursor.get(res.locals.profile)!.seq });
+});
+
+// Pushes the client's pending changes and returns everything it has not seen yet. Rejected changes come back
+// with the winning version so the client can drop its copy.
+app.post('/api/sync', (req, res) => {
+  const profile: string = res.locals.profile;
+  const since = Number(req.body?.since) || 0;
+  const changes: unknown[] = Array.isArray(req.body?.changes) ? req.body.changes : [];
+  if (!changes.every(isSyncChange)) {
+    res.status(400).json({ error: 'Invalid change' });
+    return;
+  }
+  const rejected = (changes as SyncChange[]).filter(change => !applyChange(profile, change));
+
+  const maxSeq = selectMaxSeq.get()!.seq;
+  // A cursor ahead of the server means the database was reset: send everything again.
+  const from = since > maxSeq ? 0 : since;
+  const rows = selectSince.all(profile, from);
+  const winners = rejected.map(c => selectOne.get(profile, c.collection, c.id)).filter((row): row is Row => !!row && row.seq <= from);
+  const response: SyncResponse = { cursor: maxSeq, changes: [...rows, ...winners].map(toChange) };
+  res.json(response);
+});
+
+app.get('/api/:collection', (req, res) => {
+  res.json(selectCollection.all(res.locals.profile, req.params.collection).map(row => ({ ...JSON.parse(row.data!), id: row.id })));
+});
+
+app.get('/api/:collection/:id', (req, res) => {
+  const row = selectOne.get(res.locals.profile, req.params.collection, req.params.id);
+  if (!row || row.deleted) res.status(404).json({ error: 'Not found' });
+  else res.json({ ...JSON.parse(row.data!), id: row.id });
+});
+
+app.put('/api/:collection/:id', (req, res) => {
+  const { updatedAt = new Date().toISOString(), deviceId = 'api', ...data } = req.body ?? {};
+  const change: SyncChange = { collection: req.params.collection, id: req.params.id, data, updatedAt, deviceId, deleted: false };
+  if (applyChange(res.locals.profile, change)) res.json(data);
+  else res.status(409).json({ error: 'A newer version exists', current: toChange(selectOne.get(res.locals.profile, change.collection, change.id)!) });
+});
+
+app.delete('/api/:collection/:id', (req, res) => {
+  const change: SyncChange = { collection: req.params.collection, id: req.params.id, data: null, updatedAt: new Date().toISOString(), deviceId: 'api', deleted: true };
+  if (!selectOne.get(res.locals.profile, change.collection, change.id)) res.status(404).json({ error: 'Not found' });
+  else if (applyChange(res.locals.profile, change)) res.status(204).end();
+  else res.status(409).json({ error: 'A newer version exists' });
+});
+
+// After `npm run build`, the same server also hosts the app.
+const dist = path.resolve('dist');
+if (fs.existsSync(dist)) app.use(express.static(dist));
+
+// Errors, such as a body that is not JSON, are answered in JSON like everything else rather than with a stack trace.
+const onError: express.ErrorRequestHandler = (error, req, res, next) => {
+  const status = Number(error?.status) || 500;
+  res.status(status).json({ error: status < 500 ? error.message : 'Internal error' });
+};
+app.use(onError);
+
+app.listen(PORT, HOST, () => {
+  console.log(`Sync server listening on http://${HOST}:${PORT}`);
+});
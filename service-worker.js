@@ -0,0 +1,30 @@
+// Built into sw.js by the precache plugin in vite.config.ts, which fills in the build id and the list of files.
+const BUILD = self.__BUILD__;
+const PRECACHE = self.__PRECACHE__;
+const CACHE = `hugo-accountant-${BUILD}`;
+
+// A new build is installed in the background and waits until the app asks it to take over.
+self.addEventListener('install', (event) => {
+  event.waitUntil(caches.open(CACHE).then((cache) => cache.addAll(PRECACHE)));
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    caches.keys()
+      .then((keys) => Promise.all(keys.filter((key) => key.startsWith('hugo-accountant-') && key !== CACHE).map((key) => caches.delete(key))))
+      .then(() => self.clients.claim()),
+  );
+});
+
+self.addEventListener('message', (event) => {
+  if (event.data === 'skipWaiting') self.skipWaiting();
+});
+
+// Everything comes from the cache of the installed build first, so the app keeps running offline and only changes
+// build when the update is accepted. Pages are served the cached app shell. The sync API is never cached.
+self.addEventListener('fetch', (event) => {
+  const url = new URL(event.request.url);
+  if (event.request.method !== 'GET' || url.origin !== self.location.origin || url.pathname.startsWith('/api')) return;
+  const request = event.request.mode === 'navigate' ? './' : event.request;
+  event.respondWith(caches.open(CACHE).then((cache) => cache.match(request)).then((cached) => cached || fetch(event.request)));
+});
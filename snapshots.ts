@@ -0,0 +1,60 @@
+import { useEffect, useState } from 'react';
+import { Item, Snapshot } from './types';
+import { accountBalance, netWorth, virtualBalance } from './balances';
+import { toDateInput } from './calendar';
+import type { StoreState } from './store';
+
+export function takeSnapshot({ accounts, pockets, debts, exchange }: StoreState, today = new Date()): Snapshot {
+  const date = toDateInput(today);
+  const items: Item[] = [...accounts.map(a => ({ ...a, balance: accountBalance(a, pockets, exchange) })), ...pockets];
+  return {
+    id: date,
+    date,
+    netWorth: netWorth(accounts, pockets, exchange),
+    currency: exchange.base,
+    balances: Object.fromEntries(items.map(i => [i.id, i.balance])),
+    virtual: Object.fromEntries(items.map(i => [i.id, virtualBalance(debts, i.id, i.balance)])),
+  };
+}
+
+const sameBalances = (a: Snapshot, b: Snapshot) =>
+  a.netWorth === b.netWorth && a.currency === b.currency && JSON.stringify(a.balances) === JSON.stringify(b.balances) && JSON.stringify(a.virtual) === JSON.stringify(b.virtual);
+
+// There is one snapshot per day, holding the last balances of that day.
+export function upsertSnapshot(snapshots: Snapshot[], snapshot: Snapshot) {
+  const existing = snapshots.find(s => s.id === snapshot.id);
+  if (existing && sameBalances(existing, snapshot)) return snapshots;
+  return existing
+    ? snapshots.map(s => s.id === snapshot.id ? snapshot : s)
+    : [...snapshots, snapshot].sort((a, b) => a.date.localeCompare(b.date));
+}
+
+// The last snapshot of each month, compared with the last one of the month before.
+export function monthlyDeltas(snapshots: Snapshot[]) {
+  const lastOfMonth = new Map<string, Snapshot>();
+  snapshots.forEach(s => lastOfMonth.set(s.date.slice(0, 7), s));
+  const months = [...lastOfMonth.entries()];
+  // A delta across a change of base currency would compare different units.
+  return months.map(([month, s], i) => ({
+    month,
+    netWorth: s.netWorth,
+    currency: s.currency,
+    delta: i > 0 && months[i - 1][1].currency === s.currency ? parseFloat((s.netWorth - months[i - 1][1].netWorth).toFixed(2)) : null,
+  }));
+}
+
+// Snapshots are taken whenever balances or debts change, and again when the day changes while the app stays open.
+export function useDailySnapshot(state: StoreState | null, setSnapshots: (fn: (prev: Snapshot[]) => Snapshot[]) => void) {
+  const [day, setDay] = useState(() => toDateInput(new Date()));
+
+  useEffect(() => {
+    const timer = setInterval(() => setDay(toDateInput(new Date())), 10 * 60 * 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  useEffect(() => {
+    if (!state) return;
+    const snapshot = takeSnapshot(state);
+    if (upsertSnapshot(state.snapshots, snapshot) !== state.snapshots) setSnapshots(prev => upsertSnapshot(prev, snapshot));
+  }, [state?.accounts, state?.pockets, state?.debts, state?.exchange, day]);
+}
@@ -0,0 +1,51 @@
+import { Item, SplitRule, Splitter } from './types';
+
+export type Allocation = { rule: SplitRule; amount: number; capped: boolean; raisedToMin: boolean };
+
+export type SplitResult = { allocations: Allocation[]; remainder: number; remainderPocketId: string; byPocket: Record<string, number>; percentTotal: number };
+
+const toCents = (v: number) => Math.round(v * 100);
+
+// Everything is computed in cents: percentages round down and the cents they leave go to the remainder pocket,
+// so the allocations always add up to the excess exactly. The remainder pocket ignores its own cap for that reason;
+// without one, the remainder stays on the account that received the paycheck.
+export function allocate(excess: number, splitter: Splitter, pockets: Item[]): SplitResult {
+  const balances = new Map(pockets.map(p => [p.id, toCents(p.balance)]));
+  const rules = splitter.rules.filter(r => balances.has(r.pocketId));
+  const given = new Map<string, number>();
+  let left = Math.max(0, toCents(excess));
+
+  const give = (rule: SplitRule, wanted: number) => {
+    const sofar = given.get(rule.pocketId) || 0;
+    const room = rule.cap !== undefined ? Math.max(0, toCents(rule.cap) - balances.get(rule.pocketId)! - sofar) : Infinity;
+    const amount = Math.max(0, Math.min(wanted, room, left));
+    given.set(rule.pocketId, sofar + amount);
+    left -= amount;
+    return { amount, capped: amount < wanted && amount === room };
+  };
+
+  const results = new Map<SplitRule, Allocation>();
+  rules.filter(r => r.kind === 'fixed').forEach(rule => {
+    const { amount, capped } = give(rule, toCents(rule.value));
+    results.set(rule, { rule, amount: amount / 100, capped, raisedToMin: false });
+  });
+
+  const base = left;
+  rules.filter(r => r.kind === 'percent').forEach(rule => {
+    const share = Math.floor((base * rule.value) / 100);
+    const min = rule.min !== undefined ? toCents(rule.min) : 0;
+    const { amount, capped } = give(rule, Math.max(share, min));
+    results.set(rule, { rule, amount: amount / 100, capped, raisedToMin: min > share && amount > share });
+  });
+
+  const remainderPocketId = balances.has(splitter.remainderPocketId) ? splitter.remainderPocketId : '';
+  if (remainderPocketId) given.set(remainderPocketId, (given.get(remainderPocketId) || 0) + left);
+
+  return {
+    allocations: rules.map(r => results.get(r)!),
+    remainder: left / 100,
+    remainderPocketId,
+    byPocket: Object.fromEntries([...given].filter(([, cents]) => cents > 0).map(([id, cents]) => [id, cents / 100])),
+    percentTotal: rules.filter(r => r.kind === 'percent').reduce((acc, r) => acc + r.value, 0),
+  };
+}
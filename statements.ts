@@ -0,0 +1,177 @@
+import { BankTransaction, Charge } from './types';
+
+export type DateFormat = 'DD/MM/YYYY' | 'YYYY-MM-DD' | 'MM/DD/YYYY';
+
+// Columns are referenced by header name; an empty string means the column is not used.
+export type CsvMapping = {
+  delimiter: string;
+  dateFormat: DateFormat;
+  decimal: ',' | '.';
+  date: string;
+  description: string;
+  amount: string;
+  fee: string;
+  balance: string;
+};
+
+export type StatementLine = { date: string; description: string; amount: number; balance?: number; fitId?: string };
+
+export type ParsedStatement = { headers: string[]; lines: StatementLine[]; endingBalance: number | null; skipped: number };
+
+export const CSV_PRESETS: Record<string, { label: string; mapping: CsvMapping }> = {
+  bnp: {
+    label: 'BNP Paribas',
+    mapping: { delimiter: ';', dateFormat: 'DD/MM/YYYY', decimal: ',', date: 'Date opération', description: 'Libellé opération', amount: 'Montant opération', fee: '', balance: '' },
+  },
+  revolut: {
+    label: 'Revolut',
+    mapping: { delimiter: ',', dateFormat: 'YYYY-MM-DD', decimal: '.', date: 'Completed Date', description: 'Description', amount: 'Amount', fee: 'Fee', balance: 'Balance' },
+  },
+};
+
+export function parseCsv(text: string, delimiter: string) {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (quoted) {
+      if (ch !== '"') field += ch;
+      else if (text[i + 1] === '"') { field += '"'; i++; }
+      else quoted = false;
+    } else if (ch === '"') {
+      quoted = true;
+    } else if (ch === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += ch;
+    }
+  }
+  if (field || row.length) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter(r => r.some(cell => cell.trim()));
+}
+
+export function detectDelimiter(text: string) {
+  const firstLines = text.split(/\r?\n/).slice(0, 5).join('\n');
+  const count = (d: string) => firstLines.split(d).length;
+  return [';', ',', '\t'].sort((a, b) => count(b) - count(a))[0];
+}
+
+export function parseAmount(raw: string, decimal: ',' | '.') {
+  let cleaned = raw.replace(/[\s €$£]/g, '').replace('−', '-');
+  cleaned = decimal === ',' ? cleaned.replace(/\./g, '').replace(',', '.') : cleaned.replace(/,/g, '');
+  const value = parseFloat(cleaned);
+  return isNaN(value) ? null : value;
+}
+
+// Returns the date as YYYY-MM-DD, ignoring any time part.
+export function parseDate(raw: string, format: DateFormat) {
+  const parts = raw.match(/(\d{1,4})[\/.-](\d{1,2})[\/.-](\d{1,4})/);
+  if (!parts) return null;
+  const [a, b, c] = parts.slice(1).map(Number);
+  let [year, month, day] = format === 'YYYY-MM-DD' ? [a, b, c] : format === 'DD/MM/YYYY' ? [c, b, a] : [c, a, b];
+  if (year < 100) year += 2000;
+  if (month < 1 || month > 12 || day < 1 || day > 31) return null;
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+}
+
+const normalize = (s: string) => s.trim().toLowerCase();
+
+// Some banks (BNP among them) put account details above the header, so the header is the first row naming the date column.
+export function parseCsvStatement(text: string, mapping: CsvMapping): ParsedStatement {
+  const rows = parseCsv(text.replace(/^﻿/, ''), mapping.delimiter);
+  const headerIndex = Math.max(0, rows.findIndex(r => r.some(cell => normalize(cell) === normalize(mapping.date))));
+  const headers = (rows[headerIndex] || []).map(h => h.trim());
+  const column = (name: string) => name ? headers.findIndex(h => normalize(h) === normalize(name)) : -1;
+  const [dateCol, descriptionCol, amountCol, feeCol, balanceCol] = [mapping.date, mapping.description, mapping.amount, mapping.fee, mapping.balance].map(column);
+
+  const lines: StatementLine[] = [];
+  let skipped = 0;
+  rows.slice(headerIndex + 1).forEach(row => {
+    const date = dateCol >= 0 ? parseDate(row[dateCol] || '', mapping.dateFormat) : null;
+    const amount = amountCol >= 0 ? parseAmount(row[amountCol] || '', mapping.decimal) : null;
+    if (!date || amount === null) {
+      skipped++;
+      return;
+    }
+    const fee = feeCol >= 0 ? parseAmount(row[feeCol] || '', mapping.decimal) || 0 : 0;
+    const balance = balanceCol >= 0 ? parseAmount(row[balanceCol] || '', mapping.decimal) : null;
+    lines.push({
+      date,
+      description: descriptionCol >= 0 ? (row[descriptionCol] || '').trim() : '',
+      amount: parseFloat((amount - Math.abs(fee)).toFixed(2)),
+      ...(balance !== null ? { balance } : {}),
+    });
+  });
+
+  return { headers, lines, endingBalance: endingBalance(lines), skipped };
+}
+
+// The ending balance is the running balance of the most recent line; exports are sorted either way.
+function endingBalance(lines: StatementLine[]) {
+  const withBalance = lines.filter(l => l.balance !== undefined);
+  if (!withBalance.length) return null;
+  const ascending = withBalance[0].date <= withBalance[withBalance.length - 1].date;
+  return (ascending ? withBalance[withBalance.length - 1] : withBalance[0]).balance!;
+}
+
+export function parseOfx(text: string): ParsedStatement {
+  const tag = (block: string, name: string) => block.match(new RegExp(`<${name}>([^<\\r\\n]*)`, 'i'))?.[1].trim() || '';
+  const lines: StatementLine[] = [];
+  let skipped = 0;
+  text.split(/<STMTTRN>/i).slice(1).forEach(chunk => {
+    const block = chunk.split(/<\/STMTTRN>/i)[0];
+    const posted = tag(block, 'DTPOSTED');
+    const amount = parseAmount(tag(block, 'TRNAMT'), tag(block, 'TRNAMT').includes(',') ? ',' : '.');
+    if (posted.length < 8 || amount === null) {
+      skipped++;
+      return;
+    }
+    lines.push({
+      date: `${posted.slice(0, 4)}-${posted.slice(4, 6)}-${posted.slice(6, 8)}`,
+      description: [tag(block, 'NAME'), tag(block, 'MEMO')].filter(Boolean).join(' — '),
+      amount,
+      ...(tag(block, 'FITID') ? { fitId: tag(block, 'FITID') } : {}),
+    });
+  });
+  const ledger = text.match(/<LEDGERBAL>[\s\S]*?<BALAMT>([^<\r\n]+)/i)?.[1].trim();
+  return { headers: [], lines, endingBalance: ledger ? parseAmount(ledger, ledger.includes(',') ? ',' : '.') : null, skipped };
+}
+
+// Stable ids make re-imports detectable: the bank's FITID when there is one, otherwise date, amount and label,
+// numbered when the same operation appears several times in one file.
+export function transactionIds(lines: StatementLine[], accountId: string) {
+  const seen = new Map<string, number>();
+  return lines.map(line => {
+    const base = line.fitId || `${line.date}|${line.amount.toFixed(2)}|${normalize(line.description)}`;
+    const occurrence = (seen.get(base) || 0) + 1;
+    seen.set(base, occurrence);
+    return `${accountId}:${base}${occurrence > 1 ? `#${occurrence}` : ''}`;
+  });
+}
+
+// A line matches a recurring charge of the same account with the same amount, named in the label or debited within 3 days of its day.
+export function matchCharge(line: StatementLine, accountId: string, charges: Charge[]) {
+  const day = Number(line.date.slice(8, 10));
+  return charges.find(c =>
+    c.accountId === accountId
+    && Math.abs(line.amount + c.amount) < 0.005
+    && (normalize(line.description).includes(normalize(c.name)) || Math.abs(day - c.day) <= 3));
+}
+
+// Suggests the pocket used last time for the same label.
+export function suggestPocket(line: StatementLine, history: BankTransaction[]) {
+  const label = normalize(line.description);
+  return [...history].reverse().find(t => t.pocketId && normalize(t.description) === label)?.pocketId;
+}
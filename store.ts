@@ -0,0 +1,711 @@
+import { useEffect, useRef, useState } from 'react';
+import { Item, Debt, Charge, JournalEntry, BankTransaction, Splitter, SplitPreset, ExpectedPaycheck, Snapshot, Exchange, Expense } from './types';
+import { formatMoney } from './money';
+import { VaultKey, deriveKey, loadVault, seal, unseal } from './vault';
+import { RecordSet, RecordVersion, SyncChange, SyncResponse, changedKeys, compareVersions, fromRecords, isSyncChange, recordKey, splitKey, toRecords } from './sync';
+import { DEFAULT_PROFILE, storageKey } from './profiles';
+import { MessageKey, t } from './i18n';
+
+export const STORE_VERSION = 11;
+
+export type StoreState = {
+  accounts: Item[];
+  pockets: Item[];
+  debts: Debt[];
+  splitter: Splitter;
+  splitPresets: SplitPreset[];
+  charges: Charge[];
+  payday: number;
+  expectedPaycheck: ExpectedPaycheck;
+  journal: JournalEntry[];
+  transactions: BankTransaction[];
+  expenses: Expense[];
+  snapshots: Snapshot[];
+  exchange: Exchange;
+};
+
+export type StoreDocument = { version: number; savedAt: string; state: StoreState };
+
+export type LoadResult =
+  | { ok: true; state: StoreState; fromLegacy: boolean }
+  | { ok: false; errors: string[]; raw: string | null };
+
+export type DiffLine = { section: string; kind: 'added' | 'removed' | 'changed'; label: string };
+
+// The layout before the single document: one localStorage key per collection. Only the default profile can have it.
+const LEGACY_KEYS = {
+  accounts: 'hugo_accounts_v3',
+  pockets: 'hugo_pockets_v3',
+  debts: 'hugo_debts_v3',
+  pocketPercentages: 'hugo_pockets_pct_v3',
+  charges: 'hugo_charges_v3',
+  payday: 'hugo_payday_v3',
+  journal: 'hugo_journal_v3',
+  idsMigrated: 'hugo_ids_migrated_v3',
+};
+
+const thisMonth = () => {
+  const d = new Date();
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}`;
+};
+
+// What the app used to start with, before onboarding. Data from then may rely on it for what it never saved.
+const legacySeed = (): StoreState => ({
+  accounts: [
+    { id: '1', name: 'BNP', balance: 0, currency: 'EUR', receivesPaycheck: true },
+    { id: '2', name: 'Revolut', balance: 0, currency: 'EUR', sumOfPockets: true },
+  ],
+  pockets: [
+    { id: 'p1', name: 'Life', balance: 0, currency: 'EUR', accountId: '2' },
+    { id: 'p2', name: 'Plaisirs', balance: 0, currency: 'EUR', accountId: '2' },
+    { id: 'p3', name: 'Remboursement Papa', balance: 0, currency: 'EUR', accountId: '2' },
+    { id: 'p4', name: 'Cadeaux', balance: 0, currency: 'EUR', accountId: '2' },
+    { id: 'p5', name: 'Épargne', balance: 0, currency: 'EUR', accountId: '2' },
+  ],
+  debts: [],
+  splitter: {
+    rules: [
+      { id: 's1', pocketId: 'p1', kind: 'percent', value: 25 },
+      { id: 's2', pocketId: 'p2', kind: 'percent', value: 35 },
+      { id: 's3', pocketId: 'p3', kind: 'percent', value: 25 },
+      { id: 's4', pocketId: 'p4', kind: 'percent', value: 5 },
+      { id: 's5', pocketId: 'p5', kind: 'percent', value: 10 },
+    ],
+    remainderPocketId: 'p2',
+  },
+  splitPresets: [],
+  charges: [
+    { id: 'c1', name: 'Voiture', amount: 175, day: 5, frequency: 'monthly', everyMonths: 1, startMonth: thisMonth(), accountId: '1' },
+    { id: 'c2', name: 'Basic-Fit', amount: 35, day: 5, frequency: 'monthly', everyMonths: 1, startMonth: thisMonth(), accountId: '1' },
+    { id: 'c3', name: 'Coiffeur', amount: 10, day: 5, frequency: 'monthly', everyMonths: 1, startMonth: thisMonth(), accountId: '1' },
+    { id: 'c4', name: 'Base', amount: 16, day: 5, frequency: 'monthly', everyMonths: 1, startMonth: thisMonth(), accountId: '1' },
+  ],
+  payday: 1,
+  expectedPaycheck: { amount: null, overrides: {} },
+  journal: [],
+  transactions: [],
+  expenses: [],
+  snapshots: [],
+  exchange: { base: 'EUR', rates: {} },
+});
+
+// The splitter of the seed before it became rules.
+const LEGACY_PERCENTAGES: Record<string, number> = { p1: 25, p2: 35, p3: 25, p4: 5, p5: 10 };
+
+// Each migration takes the state of version N and returns the state of version N + 1.
+const MIGRATIONS: Record<number, (state: any) => any> = {
+  // v3 was split across keys, may predate charges and the journal, and early v3 data referenced accounts and pockets by name.
+  3: (state) => {
+    const seed = legacySeed();
+    let accounts: Item[] = state.accounts ?? seed.accounts;
+    let pockets: Item[] = state.pockets ?? seed.pockets;
+    let debts: Debt[] = state.debts ?? [];
+    let pocketPercentages: Record<string, number> = state.pocketPercentages ?? LEGACY_PERCENTAGES;
+    let journal: JournalEntry[] = state.journal ?? [];
+
+    if (!state.idsMigrated && state.accounts && state.pockets) {
+      const sumAccount = accounts.find(a => a.name === 'Revolut');
+      const idByName = new Map([...accounts, ...pockets].map(i => [i.name, i.id]));
+      const toId = (ref: string) => idByName.get(ref) || ref;
+      const migrateDebt = (d: Debt | null) => d && { ...d, borrowFrom: toId(d.borrowFrom), toFund: toId(d.toFund) };
+
+      accounts = accounts.map(a => ({ ...a, sumOfPockets: a === sumAccount, receivesPaycheck: a.name === 'BNP' }));
+      pockets = pockets.map(p => ({ ...p, accountId: p.accountId || (sumAccount || accounts[0])?.id }));
+      pocketPercentages = Object.fromEntries(Object.entries(pocketPercentages).map(([k, v]) => [toId(k), v]));
+      debts = debts.map(d => migrateDebt(d)!);
+      journal = journal.map(e => ({ ...e, debts: e.debts.map(c => ({ before: migrateDebt(c.before), after: migrateDebt(c.after) })) }));
+    }
+
+    return { accounts, pockets, debts, pocketPercentages, charges: state.charges ?? seed.charges, payday: state.payday ?? seed.payday, journal };
+  },
+  4: (state) => ({ ...state, transactions: [] }),
+  // Debts used to disappear once settled; the ones still stored are all open and unpaid.
+  5: (state) => {
+    const migrateDebt = (d: any) => d && { ...d, status: 'open', remaining: d.amount, repayments: [] };
+    return {
+      ...state,
+      debts: state.debts.map(migrateDebt),
+      journal: state.journal.map((e: any) => ({ ...e, debts: e.debts.map((c: any) => ({ before: migrateDebt(c.before), after: migrateDebt(c.after) })) })),
+    };
+  },
+  // Percentages become ordered rules; the pocket with the largest share absorbs the rounding cents.
+  6: ({ pocketPercentages, ...state }) => {
+    const shares = state.pockets.map((p: Item) => [p.id, pocketPercentages[p.id] || 0] as const).filter(([, pct]: readonly [string, number]) => pct > 0);
+    const largest = [...shares].sort((a, b) => b[1] - a[1])[0];
+    return {
+      ...state,
+      splitter: {
+        rules: shares.map(([pocketId, value]: readonly [string, number], i: number) => ({ id: `s${i + 1}`, pocketId, kind: 'percent', value })),
+        remainderPocketId: largest ? largest[0] : '',
+      },
+      splitPresets: [],
+    };
+  },
+  7: (state) => ({ ...state, expectedPaycheck: { amount: null, overrides: {} } }),
+  8: (state) => ({ ...state, snapshots: [] }),
+  // Everything was in euros until then.
+  9: (state) => ({
+    ...state,
+    accounts: state.accounts.map((a: Item) => ({ ...a, currency: 'EUR' })),
+    pockets: state.pockets.map((p: Item) => ({ ...p, currency: 'EUR' })),
+    snapshots: state.snapshots.map((s: Snapshot) => ({ ...s, currency: 'EUR' })),
+    exchange: { base: 'EUR', rates: {} },
+  }),
+  10: (state) => ({ ...state, expenses: [] }),
+};
+
+// A profile with nothing in it. Templates start from it, and it tells sync which fields are collections.
+export const emptyState = (): StoreState => ({
+  accounts: [],
+  pockets: [],
+  debts: [],
+  splitter: { rules: [], remainderPocketId: '' },
+  splitPresets: [],
+  charges: [],
+  payday: 1,
+  expectedPaycheck: { amount: null, overrides: {} },
+  journal: [],
+  transactions: [],
+  expenses: [],
+  snapshots: [],
+  exchange: { base: 'EUR', rates: {} },
+});
+
+export function migrate(doc: { version: number; state: any }): StoreDocument {
+  if (doc.version > STORE_VERSION) throw new Error(t('store.newerVersion', { version: doc.version }));
+  let { version, state } = doc;
+  while (version < STORE_VERSION) {
+    const step = MIGRATIONS[version];
+    if (!step) throw new Error(t('store.noMigration', { version }));
+    state = step(state);
+    version++;
+  }
+  return { version, savedAt: new Date().toISOString(), state };
+}
+
+const isObject = (v: unknown): v is Record<string, any> => typeof v === 'object' && v !== null && !Array.isArray(v);
+const isNumber = (v: unknown): v is number => typeof v === 'number' && Number.isFinite(v);
+const isString = (v: unknown): v is string => typeof v === 'string';
+
+export function validateState(state: any): string[] {
+  if (!isObject(state)) return [t('store.noData')];
+  const errors: string[] = [];
+  const checkList = (key: string, check: (v: any) => string | null) => {
+    if (!Array.isArray(state[key])) {
+      errors.push(t('store.notAList', { key }));
+      return;
+    }
+    state[key].forEach((v: any, i: number) => {
+      const error = isObject(v) && isString(v.id) ? check(v) : t('store.noId');
+      if (error) errors.push(t('store.entryError', { key, index: i, error }));
+    });
+  };
+  const checkItem = (v: any) =>
+    !isString(v.name) ? t('store.missingName')
+    : !isNumber(v.balance) ? t('store.invalidBalance')
+    : !isString(v.currency) ? t('store.missingCurrency')
+    : v.goal !== undefined && (!isObject(v.goal) || !isNumber(v.goal.target)) ? t('store.invalidGoal')
+    : null;
+
+  checkList('accounts', checkItem);
+  checkList('pockets', checkItem);
+  checkList('debts', v =>
+    !isString(v.borrowFrom) || !isString(v.toFund) ? t('store.missingAccounts')
+    : !isNumber(v.amount) || !isNumber(v.remaining) ? t('store.invalidAmount')
+    : !['open', 'settled'].includes(v.status) ? t('store.invalidStatus')
+    : !Array.isArray(v.repayments) ? t('store.missingRepayments')
+    : null);
+  checkList('charges', v =>
+    !isString(v.name) || !isString(v.accountId) ? t('store.missingNameOrAccount')
+    : !isNumber(v.amount) || !isNumber(v.day) ? t('store.invalidAmountOrDay')
+    : !['monthly', 'yearly', 'custom'].includes(v.frequency) ? t('store.invalidFrequency')
+    : null);
+  checkList('journal', v => !isString(v.kind) || !Array.isArray(v.balances) || !Array.isArray(v.debts) ? t('store.incompleteEntry') : null);
+  checkList('transactions', v => !isString(v.accountId) || !isString(v.date) ? t('store.missingAccountOrDate') : !isNumber(v.amount) ? t('store.invalidAmount') : null);
+  checkList('expenses', v => !isString(v.pocketId) || !isString(v.date) ? t('store.missingPocketOrDate') : !isNumber(v.amount) ? t('store.invalidAmount') : !isString(v.category) ? t('store.missingCategory') : null);
+  checkList('snapshots', v => !isString(v.date) || !isNumber(v.netWorth) || !isObject(v.balances) || !isObject(v.virtual) ? t('store.incompleteSnapshot') : null);
+  const checkSplitter = (v: any) => isObject(v) && isString(v.remainderPocketId) && Array.isArray(v.rules)
+    && v.rules.every((r: any) => isObject(r) && isString(r.pocketId) && ['fixed', 'percent'].includes(r.kind) && isNumber(r.value));
+  if (!checkSplitter(state.splitter)) errors.push(t('store.invalidField', { key: 'splitter' }));
+  checkList('splitPresets', v => !isString(v.name) ? t('store.missingName') : !checkSplitter(v) ? t('store.invalidRules') : null);
+  if (!isNumber(state.payday)) errors.push(t('store.invalidField', { key: 'payday' }));
+  if (!isObject(state.exchange) || !isString(state.exchange.base) || !isObject(state.exchange.rates) || !Object.values(state.exchange.rates).every(isNumber)) errors.push(t('store.invalidField', { key: 'exchange' }));
+  if (!isObject(state.expectedPaycheck) || !(state.expectedPaycheck.amount === null || isNumber(state.expectedPaycheck.amount))
+    || !isObject(state.expectedPaycheck.overrides) || !Object.values(state.expectedPaycheck.overrides).every(isNumber)) errors.push(t('store.invalidField', { key: 'expectedPaycheck' }));
+  if (errors.length) return errors;
+
+  const ids = new Set([...state.accounts, ...state.pockets].map((i: Item) => i.id));
+  state.debts.forEach((d: Debt) => {
+    if (!ids.has(d.borrowFrom) || !ids.has(d.toFund)) errors.push(t('store.unknownDebtItem', { id: d.id }));
+  });
+  state.charges.forEach((c: Charge) => {
+    if (!ids.has(c.accountId)) errors.push(t('store.unknownChargeAccount', { name: c.name }));
+  });
+  return errors;
+}
+
+const toResult = (doc: { version: number; state: any }, raw: string | null, fromLegacy = false): LoadResult => {
+  try {
+    const { state } = migrate(doc);
+    const errors = validateState(state);
+    return errors.length ? { ok: false, errors, raw } : { ok: true, state, fromLegacy };
+  } catch (error) {
+    return { ok: false, errors: [(error as Error).message], raw };
+  }
+};
+
+export function parseDocument(raw: string): LoadResult {
+  let doc: any;
+  try {
+    doc = JSON.parse(raw);
+  } catch (error) {
+    return { ok: false, errors: [t('errors.invalidJson')], raw };
+  }
+  if (!isObject(doc) || !isNumber(doc.version) || !('state' in doc)) return { ok: false, errors: [t('store.noVersion')], raw };
+  return toResult(doc as StoreDocument, raw);
+}
+
+function loadLegacy(): LoadResult | null {
+  const raws = Object.entries(LEGACY_KEYS)
+    .map(([field, key]) => [field, window.localStorage.getItem(key)] as const)
+    .filter(([, raw]) => raw !== null) as [string, string][];
+  if (!raws.length) return null;
+  const raw = JSON.stringify(Object.fromEntries(raws));
+  const state: Record<string, unknown> = {};
+  for (const [field, value] of raws) {
+    try {
+      state[field] = JSON.parse(value);
+    } catch (error) {
+      return { ok: false, errors: [t('store.legacyUnreadable', { key: LEGACY_KEYS[field as keyof typeof LEGACY_KEYS] })], raw };
+    }
+  }
+  return toResult({ version: 3, state }, raw, true);
+}
+
+export function loadStore(profileId: string): LoadResult {
+  try {
+    const raw = window.localStorage.getItem(storageKey(profileId, 'store'));
+    if (raw !== null) return parseDocument(raw);
+    return (profileId === DEFAULT_PROFILE ? loadLegacy() : null) ?? { ok: true, state: emptyState(), fromLegacy: false };
+  } catch (error) {
+    return { ok: false, errors: [t('store.readFailed', { error: (error as Error).message })], raw: null };
+  }
+}
+
+export const exportDocument = (state: StoreState) =>
+  JSON.stringify({ version: STORE_VERSION, savedAt: new Date().toISOString(), state } satisfies StoreDocument, null, 2);
+
+// Returns the error message when the write fails, so the UI can show that changes are not being kept.
+export function saveStore(state: StoreState, profileId: string): string | null {
+  try {
+    window.localStorage.setItem(storageKey(profileId, 'store'), exportDocument(state));
+    return null;
+  } catch (error) {
+    return (error as Error).message || t('store.writeFailed');
+  }
+}
+
+// Writes the document encrypted, then drops any plaintext copy left from before the PIN was set.
+export async function saveVault(state: StoreState, key: VaultKey, profileId: string): Promise<string | null> {
+  try {
+    window.localStorage.setItem(storageKey(profileId, 'vault'), JSON.stringify(await seal(exportDocument(state), key)));
+    window.localStorage.removeItem(storageKey(profileId, 'store'));
+    return null;
+  } catch (error) {
+    return (error as Error).message || t('store.writeFailed');
+  }
+}
+
+const SECTIONS = { accounts: 'diff.accounts', pockets: 'diff.pockets', debts: 'diff.debts', charges: 'diff.charges', splitPresets: 'diff.presets' } as const;
+
+type SectionRecord = StoreState[keyof typeof SECTIONS][number];
+
+// Debts have no name, and their currency is the one of the item they were borrowed from, which may not be in the document.
+const describeRecord = (r: SectionRecord) => 'name' in r ? r.name : `${r.amount.toFixed(2)}${r.note ? ` • ${r.note}` : ''}`;
+
+const byId = (records: SectionRecord[]) => new Map(records.map(r => [r.id, r] as const));
+
+export function diffStates(current: StoreState, incoming: StoreState): DiffLine[] {
+  const lines: DiffLine[] = [];
+  (Object.keys(SECTIONS) as (keyof typeof SECTIONS)[]).forEach(key => {
+    const section = t(SECTIONS[key]);
+    const before = byId(current[key]);
+    const after = byId(incoming[key]);
+    after.forEach((r, id) => {
+      const prev = before.get(id);
+      if (!prev) lines.push({ section, kind: 'added', label: describeRecord(r) });
+      else if (JSON.stringify(prev) !== JSON.stringify(r)) {
+        const balance = 'balance' in r && 'balance' in prev && prev.balance !== r.balance ? ` : ${formatMoney(prev.balance, prev.currency)} → ${formatMoney(r.balance, r.currency)}` : '';
+        lines.push({ section, kind: 'changed', label: describeRecord(r) + balance });
+      }
+    });
+    before.forEach((r, id) => {
+      if (!after.has(id)) lines.push({ section, kind: 'removed', label: describeRecord(r) });
+    });
+  });
+  if (JSON.stringify(current.splitter) !== JSON.stringify(incoming.splitter)) lines.push({ section: t('diff.splitter'), kind: 'changed', label: t('diff.splitterRules') });
+  if (JSON.stringify(current.expectedPaycheck) !== JSON.stringify(incoming.expectedPaycheck)) lines.push({ section: t('diff.forecast'), kind: 'changed', label: t('diff.expectedPaychecks') });
+  if (JSON.stringify(current.exchange) !== JSON.stringify(incoming.exchange)) lines.push({ section: t('diff.currencies'), kind: 'changed', label: t('diff.rates', { base: incoming.exchange.base }) });
+  if (current.payday !== incoming.payday) lines.push({ section: t('diff.paycheck'), kind: 'changed', label: t('diff.payday', { before: current.payday, after: incoming.payday }) });
+  // Append-only collections can be long, so they are summarised as counts.
+  const counts: [('journal' | 'transactions' | 'expenses' | 'snapshots'), MessageKey, MessageKey][] = [
+    ['journal', 'diff.journal', 'diff.operations'], ['transactions', 'diff.transactions', 'diff.operations'], ['expenses', 'diff.expenses', 'diff.expenseCount'], ['snapshots', 'diff.snapshots', 'diff.days'],
+  ];
+  counts.forEach(([key, section, unit]) => {
+    const ids = new Set<string>(current[key].map(e => e.id));
+    const added = (incoming[key] as { id: string }[]).filter(e => !ids.has(e.id)).length;
+    const removed = current[key].length - (incoming[key].length - added);
+    if (added) lines.push({ section: t(section), kind: 'added', label: t(unit, { count: added }) });
+    if (removed) lines.push({ section: t(section), kind: 'removed', label: t(unit, { count: removed }) });
+  });
+  return lines;
+}
+
+// Merging keeps every current record and only adds the ones the backup has that we don't.
+export function mergeStates(current: StoreState, incoming: StoreState): StoreState {
+  const union = <T extends { id: string }>(ours: T[], theirs: T[]) => [...ours, ...theirs.filter(r => !ours.some(o => o.id === r.id))];
+  return {
+    ...current,
+    accounts: union(current.accounts, incoming.accounts),
+    pockets: union(current.pockets, incoming.pockets),
+    debts: union(current.debts, incoming.debts),
+    charges: union(current.charges, incoming.charges),
+    splitPresets: union(current.splitPresets, incoming.splitPresets),
+    journal: union(current.journal, incoming.journal).sort((a, b) => a.timestamp.localeCompare(b.timestamp)),
+    transactions: union(current.transactions, incoming.transactions),
+    expenses: union(current.expenses, incoming.expenses),
+    snapshots: union(current.snapshots, incoming.snapshots).sort((a, b) => a.date.localeCompare(b.date)),
+  };
+}
+
+export type Updater<T> = T | ((prev: T) => T);
+
+// The component using it is remounted to switch profiles, so the profile never changes under it.
+export function useStore(profileId: string) {
+  const vaultStorage = storageKey(profileId, 'vault');
+  // With a vault on the device nothing can be read before the PIN is entered.
+  const [initial] = useState(() => loadVault(vaultStorage) ? null : loadStore(profileId));
+  const [state, setState] = useState<StoreState | null>(initial?.ok ? initial.state : null);
+  const [failure, setFailure] = useState(initial && initial.ok === false ? { errors: initial.errors, raw: initial.raw } : null);
+  const [saveError, setSaveError] = useState<string | null>(null);
+  const [locked, setLocked] = useState(initial === null);
+  const [lockAfter, setLockAfter] = useState<number | null>(() => initial === null ? loadVault(vaultStorage)!.lockAfter : null);
+  const vaultKey = useRef<VaultKey | null>(null);
+  const latest = useRef(state);
+  latest.current = state;
+
+  // Encrypting is asynchronous, so every write goes through one queue: an older state can never land last, and each
+  // write is encrypted if a PIN was set when it was queued.
+  const writes = useRef<Promise<unknown>>(Promise.resolve());
+  const queue = <T>(task: () => Promise<T>): Promise<T> => {
+    const run = writes.current.then(task);
+    writes.current = run.catch(() => {});
+    return run;
+  };
+
+  // Nothing is written while the stored document is unreadable, so a bad load never overwrites the user's data.
+  useEffect(() => {
+    if (!state) return;
+    const queuedKey = vaultKey.current;
+    queue(async () => {
+      // A PIN changed meanwhile encrypts with its new key; once locked, the key captured here still encrypts this
+      // last state. Without either the vault is locked, and the state is dropped rather than written in clear.
+      if (window.localStorage.getItem(vaultStorage) !== null) {
+        const key = vaultKey.current ?? queuedKey;
+        return key ? saveVault(state, key, profileId) : null;
+      }
+      // The PIN was removed meanwhile, and removing it already wrote the latest state.
+      if (queuedKey) return null;
+      const error = saveStore(state, profileId);
+      if (!error && initial?.ok && initial.fromLegacy) Object.values(LEGACY_KEYS).forEach(key => window.localStorage.removeItem(key));
+      return error;
+    }).then(setSaveError);
+  }, [state]);
+
+  const update = (fn: (prev: StoreState) => StoreState) => setState(prev => prev && fn(prev));
+
+  const setField = <K extends keyof StoreState>(key: K) => (value: Updater<StoreState[K]>) =>
+    update(prev => ({ ...prev, [key]: value instanceof Function ? value(prev[key]) : value }));
+
+  const resolve = (next: StoreState) => {
+    setFailure(null);
+    setState(next);
+  };
+
+  const checkPin = async (pin: string) => {
+    const vault = loadVault(vaultStorage);
+    return vault ? unseal(vault, pin) : null;
+  };
+
+  // Returns false for a wrong PIN. A document that decrypts but doesn't validate goes to the storage error screen.
+  const unlock = async (pin: string) => {
+    await writes.current;
+    const opened = await checkPin(pin);
+    if (!opened) return false;
+    vaultKey.current = opened.key;
+    const result = parseDocument(opened.text);
+    if (result.ok === false) setFailure({ errors: result.errors, raw: result.raw });
+    else setState(result.state);
+    setLocked(false);
+    return true;
+  };
+
+  // The key and the decrypted state leave memory; the last write still completes with the key it captured.
+  const lockNow = () => {
+    if (!vaultKey.current) return;
+    vaultKey.current = null;
+    setState(null);
+    setFailure(null);
+    setLocked(true);
+  };
+
+  // Sets a first PIN, or replaces one given the current PIN, and encrypts the current state under the new key.
+  // Returns the error message to show, or null.
+  const setPin = async (pin: string, delay: number, current?: string) => {
+    if (vaultKey.current && !(await checkPin(current ?? ''))) return t('lock.wrongCurrent');
+    const key = await deriveKey(pin, delay);
+    return queue(async () => {
+      const error = latest.current ? await saveVault(latest.current, key, profileId) : t('store.nothingToEncrypt');
+      if (error) return error;
+      vaultKey.current = key;
+      setLockAfter(delay);
+      return null;
+    });
+  };
+
+  const removePin = async (current: string) => {
+    if (!(await checkPin(current))) return t('lock.wrongCurrent');
+    return queue(async () => {
+      const error = latest.current ? saveStore(latest.current, profileId) : t('store.nothingToSave');
+      if (error) return error;
+      window.localStorage.removeItem(vaultStorage);
+      vaultKey.current = null;
+      setLockAfter(null);
+      return null;
+    });
+  };
+
+  const setLockDelay = (delay: number) => {
+    if (!vaultKey.current || !latest.current) return;
+    const key = vaultKey.current = { ...vaultKey.current, lockAfter: delay };
+    const state = latest.current;
+    setLockAfter(delay);
+    queue(() => saveVault(state, key, profileId)).then(setSaveError);
+  };
+
+  // A forgotten PIN: the vault is deleted and the app starts again from a backup or from scratch.
+  const forget = (next: StoreState) => {
+    queue(async () => {
+      vaultKey.current = null;
+      window.localStorage.removeItem(vaultStorage);
+    });
+    setLockAfter(null);
+    setLocked(false);
+    resolve(next);
+  };
+
+  return {
+    state,
+    loadErrors: failure?.errors ?? [],
+    raw: failure?.raw ?? null,
+    saveError,
+    update,
+    setField,
+    resolve,
+    lock: { locked, lockAfter, unlock, lockNow, setPin, removePin, setLockDelay, forget },
+  };
+}
+
+export type SyncStatus = 'syncing' | 'synced' | 'pending' | 'offline' | 'error';
+
+// Device-local replication bookkeeping. It lives outside the store document so backups never carry it.
+// rejected lists the server's records that could not be applied.
+type SyncMeta = { deviceId: string; cursor: number; versions: Record<string, RecordVersion>; pending: string[]; rejected: string[] };
+
+const SYNC_URL = '/api/sync';
+const HEALTH_URL = '/api/health';
+const SYNC_INTERVAL = 30_000;
+const SYNC_DEBOUNCE = 2_000;
+// Records that existed before the first sync are pushed with this version, so anything already on the server wins.
+const EPOCH = '1970-01-01T00:00:00.000Z';
+
+function loadSyncMeta(profileId: string): SyncMeta {
+  try {
+    const raw = window.localStorage.getItem(storageKey(profileId, 'sync'));
+    if (raw) return { rejected: [], ...JSON.parse(raw) };
+  } catch (error) {}
+  return { deviceId: Math.random().toString(36).slice(2, 10), cursor: 0, versions: {}, pending: [], rejected: [] };
+}
+
+// Whether the server already holds records of the profile, pushed by another device. False when it can't be reached.
+export async function hasRemoteRecords(profileId: string) {
+  try {
+    const response = await fetch(`${HEALTH_URL}?profile=${encodeURIComponent(profileId)}`, { signal: AbortSignal.timeout(5_000) });
+    return response.ok && (await response.json()).cursor > 0;
+  } catch (error) {
+    return false;
+  }
+}
+
+// Each profile syncs its own records on the server, under its id.
+export function useSync(profileId: string, state: StoreState | null, replace: (next: StoreState) => void) {
+  const meta = useRef<SyncMeta>(loadSyncMeta(profileId));
+  const baseline = useRef<RecordSet | null>(null);
+  const stateRef = useRef(state);
+  const running = useRef(false);
+  const debounce = useRef<ReturnType<typeof setTimeout>>();
+  const [status, setStatus] = useState<SyncStatus>(meta.current.pending.length ? 'pending' : 'synced');
+  const [pending, setPending] = useState(meta.current.pending.length);
+  const [rejected, setRejected] = useState(meta.current.rejected.length);
+
+  const saveMeta = () => {
+    try {
+      window.localStorage.setItem(storageKey(profileId, 'sync'), JSON.stringify(meta.current));
+    } catch (error) {}
+    setPending(meta.current.pending.length);
+    setRejected(meta.current.rejected.length);
+  };
+
+  const markPending = (key: string, version: RecordVersion) => {
+    meta.current.versions[key] = version;
+    if (!meta.current.pending.includes(key)) meta.current.pending.push(key);
+    // Our newer version replaces the one the server sent and we could not use.
+    meta.current.rejected = meta.current.rejected.filter(k => k !== key);
+  };
+
+  // Applies what the server sent, except records we changed more recently and still have to push. Nothing is changed
+  // before the whole batch is checked; a record that would make the document invalid is set aside as rejected, so one
+  // bad record never stops the others or the cursor.
+  const applyRemote = (changes: SyncChange[]) => {
+    const records = toRecords(stateRef.current!);
+    const template = emptyState();
+    const incoming = changes.filter(change => {
+      if (!isSyncChange(change)) return false;
+      const key = recordKey(change.collection, change.id);
+      const local = meta.current.versions[key];
+      return !(local && meta.current.pending.includes(key) && compareVersions(local, change) > 0);
+    });
+    const withChanges = (base: RecordSet, batch: SyncChange[]) => {
+      const next = { ...base };
+      batch.forEach(change => {
+        const collection = next[change.collection] = { ...next[change.collection] };
+        if (change.deleted) delete collection[change.id];
+        else collection[change.id] = change.data!;
+      });
+      return next;
+    };
+    const isValid = (set: RecordSet) => !validateState(fromRecords(set, template)).length;
+
+    let result = withChanges(records, incoming);
+    let accepted = incoming;
+    if (!isValid(result)) {
+      // One at a time, going over the rest again while any gets in, since a record may depend on a later one.
+      result = records;
+      accepted = [];
+      let remaining = incoming;
+      let progress = true;
+      while (progress) {
+        progress = false;
+        remaining = remaining.filter(change => {
+          const next = withChanges(result, [change]);
+          if (!isValid(next)) return true;
+          result = next;
+          accepted.push(change);
+          progress = true;
+          return false;
+        });
+      }
+      remaining.forEach(change => {
+        const key = recordKey(change.collection, change.id);
+        if (!meta.current.rejected.includes(key)) meta.current.rejected.push(key);
+      });
+    }
+
+    accepted.forEach(change => {
+      const key = recordKey(change.collection, change.id);
+      meta.current.versions[key] = { updatedAt: change.updatedAt, deviceId: change.deviceId };
+      meta.current.pending = meta.current.pending.filter(k => k !== key);
+      meta.current.rejected = meta.current.rejected.filter(k => k !== key);
+    });
+    if (!changedKeys(records, result).length) return;
+    const next = fromRecords(result, template);
+    baseline.current = toRecords(next);
+    replace(next);
+  };
+
+  const sync = async () => {
+    if (running.current || !stateRef.current) return;
+    if (!navigator.onLine) {
+      setStatus('offline');
+      return;
+    }
+    running.current = true;
+    setStatus('syncing');
+    const records = toRecords(stateRef.current);
+    const sent: SyncChange[] = meta.current.pending.map(key => {
+      const [collection, id] = splitKey(key);
+      const data = records[collection]?.[id];
+      return { collection, id, data: data ?? null, deleted: data === undefined, ...meta.current.versions[key] };
+    });
+    try {
+      const response = await fetch(`${SYNC_URL}?profile=${encodeURIComponent(profileId)}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ since: meta.current.cursor, changes: sent }),
+      });
+      if (!response.ok) throw new Error(`HTTP ${response.status}`);
+      const body: SyncResponse = await response.json();
+      // A pushed record is settled unless it was edited again while the request was in flight.
+      const settled = new Set(sent.filter(c => compareVersions(meta.current.versions[recordKey(c.collection, c.id)], c) === 0).map(c => recordKey(c.collection, c.id)));
+      meta.current.pending = meta.current.pending.filter(key => !settled.has(key));
+      applyRemote(body.changes);
+      meta.current.cursor = body.cursor;
+      saveMeta();
+      setStatus(meta.current.pending.length ? 'pending' : 'synced');
+    } catch (error) {
+      setStatus(error instanceof TypeError ? 'offline' : 'error');
+    } finally {
+      running.current = false;
+    }
+  };
+
+  // Every local change is diffed against the last known records and queued with a fresh version.
+  useEffect(() => {
+    stateRef.current = state;
+    if (!state) return;
+    const records = toRecords(state);
+    if (!baseline.current) {
+      baseline.current = records;
+      if (!meta.current.cursor && !Object.keys(meta.current.versions).length) {
+        changedKeys({}, records).forEach(key => markPending(key, { updatedAt: EPOCH, deviceId: meta.current.deviceId }));
+        saveMeta();
+      }
+      return;
+    }
+    const keys = changedKeys(baseline.current, records);
+    baseline.current = records;
+    if (!keys.length) return;
+    const version = { updatedAt: new Date().toISOString(), deviceId: meta.current.deviceId };
+    keys.forEach(key => markPending(key, version));
+    saveMeta();
+    setStatus('pending');
+    clearTimeout(debounce.current);
+    debounce.current = setTimeout(sync, SYNC_DEBOUNCE);
+  }, [state]);
+
+  useEffect(() => {
+    sync();
+    const interval = setInterval(sync, SYNC_INTERVAL);
+    const goOffline = () => setStatus('offline');
+    window.addEventListener('online', sync);
+    window.addEventListener('offline', goOffline);
+    return () => {
+      clearInterval(interval);
+      clearTimeout(debounce.current);
+      window.removeEventListener('online', sync);
+      window.removeEventListener('offline', goOffline);
+    };
+  }, []);
+
+  return { status, pending, rejected, sync };
+}
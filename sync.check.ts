@@ -0,0 +1,41 @@
+// Offline checks of joining a profile another device already synced: `npm test`. The new device starts from an empty
+// state, so the debt and charge forms are first rendered with no items; what they save once the first pull has
+// filled the state must still be a valid document.
+import { Charge, Debt } from './types';
+import { emptyState, validateState } from './store';
+import { fromRecords, toRecords } from './sync';
+import { buildFromTemplate } from './templates';
+import { debtSources, pickItem } from './balances';
+
+let failures = 0;
+const check = (label: string, ok: boolean, detail?: unknown) => {
+  if (ok) return;
+  failures++;
+  console.error(`✗ ${label}${detail === undefined ? '' : `\n  ${JSON.stringify(detail)}`}`);
+};
+
+// What the forms hold from their first render on the empty state.
+const joined = emptyState();
+const draft = { borrowFrom: pickItem(debtSources(joined.accounts, joined.pockets), ''), toFund: '', accountId: pickItem(joined.accounts, '') };
+check('nothing can be picked before the first pull', !draft.borrowFrom && !draft.accountId);
+
+// The first pull brings the other device's records.
+const remote = buildFromTemplate('household', { currency: 'EUR', payday: 25 });
+const pulled = fromRecords(toRecords(remote), joined);
+check('the pulled state is valid', !validateState(pulled).length, validateState(pulled));
+
+const sources = debtSources(pulled.accounts, pulled.pockets);
+check('accounts made of pockets cannot lend or be funded', !sources.some(i => i.sumOfPockets));
+const lender = pickItem(sources, draft.borrowFrom);
+const funded = pickItem(sources, draft.toFund, lender);
+check('a debt gets two different items', !!lender && !!funded && lender !== funded, { lender, funded });
+check('a removed choice falls back to an existing item', pickItem(sources, 'gone') === sources[0].id);
+check('the lender is never funded by itself', pickItem(sources, lender, lender) !== lender);
+
+const debt: Debt = { id: 'd1', date: '2024-03-15', borrowFrom: lender, toFund: funded, amount: 50, note: '', status: 'open', remaining: 50, repayments: [] };
+const charge: Charge = { id: 'c1', name: 'Loyer', amount: 800, day: 5, frequency: 'monthly', everyMonths: 1, startMonth: '2024-03', accountId: pickItem(pulled.accounts, draft.accountId) };
+const errors = validateState({ ...pulled, debts: [debt], charges: [charge] });
+check('a debt and a charge created right after joining keep the document valid', !errors.length, errors);
+
+console.log(failures ? `${failures} sync check(s) failed` : 'sync checks passed');
+if (failures) process.exitCode = 1;
@@ -0,0 +1,75 @@
+import type { StoreState } from './store';
+
+// Wire format shared by the sync server and the app. Every array in the store is a collection of records keyed by id;
+// every other field is one record of the "settings" collection.
+
+export type RecordVersion = { updatedAt: string; deviceId: string };
+// A record of a collection is the stored object plus its position; a setting is { value }.
+export type WireRecord = Record<string, unknown>;
+export type SyncChange = RecordVersion & { collection: string; id: string; data: WireRecord | null; deleted: boolean };
+export type SyncRequest = { since: number; changes: SyncChange[] };
+export type SyncResponse = { cursor: number; changes: SyncChange[] };
+export type RecordSet = Record<string, Record<string, WireRecord>>;
+
+type Positioned = WireRecord & { id: string; position: number };
+
+export const SETTINGS = 'settings';
+
+// Last writer wins; the device id breaks ties so the server and every device pick the same winner.
+export const compareVersions = (a: RecordVersion, b: RecordVersion) =>
+  a.updatedAt.localeCompare(b.updatedAt) || a.deviceId.localeCompare(b.deviceId);
+
+export const recordKey = (collection: string, id: string) => `${collection}/${id}`;
+
+export const splitKey = (key: string) => {
+  const index = key.indexOf('/');
+  return [key.slice(0, index), key.slice(index + 1)] as const;
+};
+
+const isWireRecord = (v: unknown): v is WireRecord => typeof v === 'object' && v !== null && !Array.isArray(v);
+
+export function isSyncChange(value: unknown): value is SyncChange {
+  if (!isWireRecord(value)) return false;
+  return typeof value.collection === 'string' && /^[a-zA-Z]+$/.test(value.collection)
+    && typeof value.id === 'string' && value.id.length > 0
+    && typeof value.updatedAt === 'string' && typeof value.deviceId === 'string'
+    && typeof value.deleted === 'boolean'
+    && (value.deleted || isWireRecord(value.data));
+}
+
+// Array order is part of the data (accounts and pockets can be reordered), so each record carries its position.
+export function toRecords(state: StoreState): RecordSet {
+  const records: RecordSet = { [SETTINGS]: {} };
+  Object.entries(state).forEach(([field, value]) => {
+    if (Array.isArray(value)) records[field] = Object.fromEntries(value.map((r, position) => [r.id, { ...r, position }]));
+    else records[SETTINGS][field] = { value };
+  });
+  return records;
+}
+
+// The template (usually the seed state) decides which fields are collections and fills in anything missing.
+export function fromRecords(records: RecordSet, template: StoreState): StoreState {
+  const state: Record<string, unknown> = {};
+  Object.entries(template).forEach(([field, fallback]) => {
+    if (Array.isArray(fallback)) {
+      state[field] = (Object.values(records[field] || {}) as Positioned[])
+        .sort((a, b) => a.position - b.position || String(a.id).localeCompare(String(b.id)))
+        .map(({ position, ...r }) => r);
+    } else {
+      state[field] = records[SETTINGS]?.[field]?.value ?? fallback;
+    }
+  });
+  return state as StoreState;
+}
+
+export function changedKeys(prev: RecordSet, next: RecordSet) {
+  const keys: string[] = [];
+  new Set([...Object.keys(prev), ...Object.keys(next)]).forEach(collection => {
+    const before = prev[collection] || {};
+    const after = next[collection] || {};
+    new Set([...Object.keys(before), ...Object.keys(after)]).forEach(id => {
+      if (JSON.stringify(before[id]) !== JSON.stringify(after[id])) keys.push(recordKey(collection, id));
+    });
+  });
+  return keys;
+}
@@ -0,0 +1,65 @@
+import { Item, SplitRule } from './types';
+import { StoreState, emptyState } from './store';
+import { MessageKey, t } from './i18n';
+
+export type TemplateKey = 'solo' | 'household' | 'blank';
+
+export type TemplateOptions = { currency: string; payday: number };
+
+// A pocket of a template and its share of what is left of each paycheck. The first one takes the rounding cents.
+type PocketShare = { name: MessageKey; percent: number };
+
+type Template = { label: MessageKey; description: MessageKey; account: MessageKey; savings: MessageKey | null; pockets: PocketShare[] };
+
+// Names are written in the locale active when the profile is created, and are the user's to rename afterwards.
+export const TEMPLATES: Record<TemplateKey, Template> = {
+  solo: {
+    label: 'templates.solo',
+    description: 'templates.soloDescription',
+    account: 'templates.currentAccount',
+    savings: 'templates.pocketsAccount',
+    pockets: [
+      { name: 'templates.everyday', percent: 50 },
+      { name: 'templates.fun', percent: 20 },
+      { name: 'templates.gifts', percent: 5 },
+      { name: 'templates.savings', percent: 25 },
+    ],
+  },
+  household: {
+    label: 'templates.household',
+    description: 'templates.householdDescription',
+    account: 'templates.jointAccount',
+    savings: 'templates.pocketsAccount',
+    pockets: [
+      { name: 'templates.groceries', percent: 40 },
+      { name: 'templates.home', percent: 20 },
+      { name: 'templates.holidays', percent: 15 },
+      { name: 'templates.savings', percent: 25 },
+    ],
+  },
+  blank: {
+    label: 'templates.blank',
+    description: 'templates.blankDescription',
+    account: 'templates.currentAccount',
+    savings: null,
+    pockets: [],
+  },
+};
+
+const newId = () => Date.now().toString() + Math.random().toString(36).slice(2, 6);
+
+export function buildFromTemplate(key: TemplateKey, { currency, payday }: TemplateOptions): StoreState {
+  const template = TEMPLATES[key];
+  const main: Item = { id: newId(), name: t(template.account), balance: 0, currency, receivesPaycheck: true };
+  const savings: Item | null = template.savings && { id: newId(), name: t(template.savings), balance: 0, currency, sumOfPockets: true };
+  const pockets: Item[] = template.pockets.map(p => ({ id: newId(), name: t(p.name), balance: 0, currency, accountId: (savings || main).id }));
+  const rules: SplitRule[] = template.pockets.map((p, i) => ({ id: newId(), pocketId: pockets[i].id, kind: 'percent', value: p.percent }));
+  return {
+    ...emptyState(),
+    accounts: savings ? [main, savings] : [main],
+    pockets,
+    splitter: { rules, remainderPocketId: pockets[0]?.id || '' },
+    payday,
+    exchange: { base: currency, rates: {} },
+  };
+}
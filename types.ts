@@ -0,0 +1,35 @@
+// deadline is a month ('YYYY-MM'); label names what the money is for when it isn't the pocket itself (e.g. "Vacances été").
+export type Goal = { target: number; deadline?: string; label?: string };
+// Accounts and pockets share this shape: pockets carry accountId and an optional goal, accounts the sumOfPockets/receivesPaycheck flags.
+export type Item = { id: string; name: string; balance: number; currency: string; archived?: boolean; accountId?: string; sumOfPockets?: boolean; receivesPaycheck?: boolean; goal?: Goal };
+export type DebtStatus = 'open' | 'settled';
+export type Repayment = { id: string; date: string; amount: number; fromPaycheck?: boolean };
+// Only the remaining amount counts towards the true balances. Settled debts are kept as history; perPaycheck is an optional repayment plan.
+// Amounts are in the currency of borrowFrom; rate converts them into the currency of toFund when the two differ.
+export type Debt = { id: string; date: string; borrowFrom: string; toFund: string; amount: number; note: string; status: DebtStatus; remaining: number; repayments: Repayment[]; perPaycheck?: number; settledAt?: string; rate?: number };
+export type Frequency = 'monthly' | 'yearly' | 'custom';
+// startMonth ('YYYY-MM') anchors yearly and custom charges: they are debited that month, then every period after it.
+export type Charge = { id: string; name: string; amount: number; day: number; frequency: Frequency; everyMonths: number; startMonth: string; accountId: string };
+// Fixed rules run first, then percentages of what they leave. cap is the pocket balance at which it stops receiving; min only applies to percentages.
+export type SplitRule = { id: string; pocketId: string; kind: 'fixed' | 'percent'; value: number; min?: number; cap?: number };
+export type Splitter = { rules: SplitRule[]; remainderPocketId: string };
+export type SplitPreset = Splitter & { id: string; name: string };
+// amount is the usual paycheck (null until set: the average of past paychecks is used); overrides are per month ('YYYY-MM').
+export type ExpectedPaycheck = { amount: number | null; overrides: Record<string, number> };
+// One per day (the id is the date), keyed by account or pocket id; virtual holds the balances net of open debts.
+// netWorth is in the base currency of that day (currency), balances in the currency of each item.
+export type Snapshot = { id: string; date: string; netWorth: number; currency: string; balances: Record<string, number>; virtual: Record<string, number> };
+// rates hold the value of one unit of each currency in the base currency.
+export type Exchange = { base: string; rates: Record<string, number>; updatedAt?: string };
+export type Collection = 'accounts' | 'pockets';
+export type BalanceChange = { collection: Collection; itemId: string; name: string; before: number; after: number };
+export type DebtChange = { before: Debt | null; after: Debt | null };
+// A line imported from a bank statement. The id is derived from the line itself, so re-importing the same file is detected.
+export type BankTransaction = { id: string; accountId: string; date: string; description: string; amount: number; pocketId?: string; chargeId?: string; importedAt: string };
+export type TransactionChange = { before: BankTransaction | null; after: BankTransaction | null };
+// Money spent from a pocket, in the pocket's currency. date is 'YYYY-MM-DD'.
+export type Expense = { id: string; pocketId: string; amount: number; date: string; category: string; merchant?: string; note?: string };
+export type ExpenseChange = { before: Expense | null; after: Expense | null };
+export type JournalKind = 'adjustment' | 'paycheck' | 'debt_created' | 'debt_repaid' | 'debt_settled' | 'debt_updated' | 'import' | 'expense' | 'undo' | 'redo';
+// The journal is append-only: undo and redo are entries of their own, carrying the changes they applied and the id of the entry they target.
+export type JournalEntry = { id: string; kind: JournalKind; label: string; timestamp: string; balances: BalanceChange[]; debts: DebtChange[]; transactions?: TransactionChange[]; expenses?: ExpenseChange[]; targetId?: string };
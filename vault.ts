@@ -0,0 +1,91 @@
+import { useEffect, useRef } from 'react';
+
+// With a PIN set, a profile's store document is kept in its vault instead, encrypted with AES-GCM under a key
+// derived from the PIN with PBKDF2. Only the derived key is held in memory, and only while the app is unlocked.
+
+export type Vault = { version: 1; iterations: number; salt: string; iv: string; data: string; lockAfter: number };
+
+// What an unlocked session needs to encrypt again: the key, and how it was derived.
+export type VaultKey = { key: CryptoKey; salt: string; iterations: number; lockAfter: number };
+
+const ITERATIONS = 600_000;
+export const MIN_PIN_LENGTH = 4;
+export const LOCK_DELAYS = [1, 5, 15, 60];
+
+// In slices, since spreading a whole document into fromCharCode overflows the call stack.
+const toBase64 = (bytes: Uint8Array) => {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  return btoa(binary);
+};
+const fromBase64 = (text: string) => Uint8Array.from(atob(text), c => c.charCodeAt(0));
+
+const isVault = (v: any): v is Vault =>
+  typeof v === 'object' && v !== null && v.version === 1 && [v.salt, v.iv, v.data].every(s => typeof s === 'string') && v.iterations > 0;
+
+export function loadVault(storageKey: string): Vault | null {
+  try {
+    const raw = window.localStorage.getItem(storageKey);
+    const vault = raw && JSON.parse(raw);
+    return isVault(vault) ? vault : null;
+  } catch (error) {
+    return null;
+  }
+}
+
+// A fresh salt unless one is given, so a new PIN never reuses the key of the old one.
+export async function deriveKey(pin: string, lockAfter: number, salt = toBase64(crypto.getRandomValues(new Uint8Array(16))), iterations = ITERATIONS): Promise<VaultKey> {
+  const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(pin), 'PBKDF2', false, ['deriveKey']);
+  const key = await crypto.subtle.deriveKey(
+    { name: 'PBKDF2', hash: 'SHA-256', salt: fromBase64(salt), iterations },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt'],
+  );
+  return { key, salt, iterations, lockAfter };
+}
+
+export async function seal(text: string, { key, salt, iterations, lockAfter }: VaultKey): Promise<Vault> {
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const data = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, new TextEncoder().encode(text));
+  return { version: 1, iterations, salt, iv: toBase64(iv), data: toBase64(new Uint8Array(data)), lockAfter };
+}
+
+// null means a wrong PIN: AES-GCM refuses to decrypt with any other key.
+export async function unseal(vault: Vault, pin: string): Promise<{ text: string; key: VaultKey } | null> {
+  const key = await deriveKey(pin, vault.lockAfter, vault.salt, vault.iterations);
+  try {
+    const data = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: fromBase64(vault.iv) }, key.key, fromBase64(vault.data));
+    return { text: new TextDecoder().decode(data), key };
+  } catch (error) {
+    return null;
+  }
+}
+
+// Calls onIdle after `minutes` without a touch or a key press. Time spent in the background counts, since timers
+// are throttled there: the check runs again as soon as the page is visible.
+export function useIdleLock(minutes: number | null, onIdle: () => void) {
+  const last = useRef(Date.now());
+  const onIdleRef = useRef(onIdle);
+  onIdleRef.current = onIdle;
+
+  useEffect(() => {
+    if (!minutes) return;
+    last.current = Date.now();
+    const check = () => {
+      if (Date.now() - last.current >= minutes * 60_000) onIdleRef.current();
+    };
+    const touch = () => { last.current = Date.now(); };
+    const onVisibility = () => { if (document.visibilityState === 'visible') check(); };
+    const events = ['pointerdown', 'keydown', 'wheel'];
+    events.forEach(e => window.addEventListener(e, touch, { passive: true }));
+    document.addEventListener('visibilitychange', onVisibility);
+    const timer = setInterval(check, 15_000);
+    return () => {
+      events.forEach(e => window.removeEventListener(e, touch));
+      document.removeEventListener('visibilitychange', onVisibility);
+      clearInterval(timer);
+    };
+  }, [minutes]);
+}
@@ -1,12 +1,40 @@
 import tailwindcss from '@tailwindcss/vite';
 import react from '@vitejs/plugin-react';
+import {createHash} from 'crypto';
+import fs from 'fs';
 import path from 'path';
-import {defineConfig, loadEnv} from 'vite';
+import {defineConfig, loadEnv, type Plugin} from 'vite';
+
+const publicFiles = (dir: string, prefix = ''): string[] =>
+  !fs.existsSync(dir) ? [] : fs.readdirSync(dir, {withFileTypes: true}).flatMap((entry) =>
+    entry.isDirectory() ? publicFiles(path.join(dir, entry.name), `${prefix}${entry.name}/`) : [`${prefix}${entry.name}`]);
+
+// Builds sw.js from service-worker.js with the list of files to precache: the app shell, the bundle and the public
+// files. The build id hashes their contents, so every deploy that changes a file installs a new service worker.
+function precacheServiceWorker(): Plugin {
+  return {
+    name: 'precache-service-worker',
+    apply: 'build',
+    generateBundle(_, bundle) {
+      const publicDir = path.resolve(__dirname, 'public');
+      const hash = createHash('sha256');
+      const built = Object.values(bundle).filter((file) => !file.fileName.endsWith('.map'));
+      built.forEach((file) => hash.update(file.fileName).update(file.type === 'chunk' ? file.code : file.source));
+      const copied = publicFiles(publicDir);
+      copied.forEach((file) => hash.update(file).update(fs.readFileSync(path.join(publicDir, file))));
+      const precache = ['./', ...built.map((file) => file.fileName), ...copied];
+      const source = fs.readFileSync(path.resolve(__dirname, 'service-worker.js'), 'utf8')
+        .replace('self.__BUILD__', JSON.stringify(hash.digest('hex').slice(0, 12)))
+        .replace('self.__PRECACHE__', JSON.stringify(precache));
+      this.emitFile({type: 'asset', fileName: 'sw.js', source});
+    },
+  };
+}
 
 export default defineConfig(({mode}) => {
   const env = loadEnv(mode, '.', '');
   return {
-    plugins: [react(), tailwindcss()],
+    plugins: [react(), tailwindcss(), precacheServiceWorker()],
     define: {
       'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
     },
@@ -19,6 +47,10 @@ export default defineConfig(({mode}) => {
       // HMR is disabled in AI Studio via DISABLE_HMR env var.
       // Do not modifyâfile watching is disabled to prevent flickering during agent edits.
       hmr: process.env.DISABLE_HMR !== 'true',
+      // The sync server (`npm run server`) runs separately; the app always talks to it through /api.
+      proxy: {
+        '/api': env.SYNC_SERVER_URL || 'http://127.0.0.1:3001',
+      },
     },
   };
 });